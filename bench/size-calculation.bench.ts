@@ -0,0 +1,73 @@
+import { serialize } from "bun:jsc";
+import { LRUCache } from "lru-cache";
+import { sizeOfCacheableObject } from "../src/core/utils/size.util";
+
+/**
+ * Compares the cost of inserting responses in the LRU cache when their size is measured by
+ * serializing them, as the cache used to, and with `sizeOfCacheableObject`.
+ *
+ * Run with `bun run bench`.
+ */
+
+// Size computed by serializing the response, the former size calculation
+const sizeOfSerialized = (obj: ResponseCacheableObject): number =>
+	serialize(obj).byteLength + 50;
+
+const createResponses = (count: number, bodySize: number): ResponseCacheableObject[] =>
+	Array.from({ length: count }, (_, index) => ({
+		body: new Uint8Array(bodySize).fill(index % 256),
+		status: 200,
+		headers: [
+			["content-type", "application/json"],
+			["content-encoding", "gzip"],
+			["etag", `"${index}"`],
+			["x-cache-date", new Date().toUTCString()],
+		],
+	}));
+
+/**
+ * Inserts the responses in a new LRU cache and measures the time it takes.
+ *
+ * @param {ResponseCacheableObject[]} responses - The responses to insert.
+ * @param {(obj: ResponseCacheableObject, key: string) => number} sizeCalculation - The size calculation.
+ * @returns {{ ms: number; size: number }} The insert time in milliseconds and the accounted size.
+ */
+const measureInserts = (
+	responses: ResponseCacheableObject[],
+	sizeCalculation: (obj: ResponseCacheableObject, key: string) => number,
+): { ms: number; size: number } => {
+	const cache = new LRUCache<string, ResponseCacheableObject>({
+		maxSize: Number.MAX_SAFE_INTEGER,
+		sizeCalculation,
+	});
+	const start = Bun.nanoseconds();
+	responses.forEach((response, index) => {
+		cache.set(`req:${index}`, response);
+	});
+	return { ms: (Bun.nanoseconds() - start) / 1e6, size: cache.calculatedSize };
+};
+
+const cases = [
+	{ count: 10000, bodySize: 256 },
+	{ count: 5000, bodySize: 16 * 1024 },
+	{ count: 500, bodySize: 1024 * 1024 },
+];
+
+const rows = cases.map(({ count, bodySize }) => {
+	const responses = createResponses(count, bodySize);
+	// Warm up both implementations before measuring
+	measureInserts(responses.slice(0, 100), sizeOfSerialized);
+	measureInserts(responses.slice(0, 100), sizeOfCacheableObject);
+	const serialized = measureInserts(responses, sizeOfSerialized);
+	const accounted = measureInserts(responses, sizeOfCacheableObject);
+	return {
+		entries: count,
+		body: `${bodySize} B`,
+		"serialize (ms)": serialized.ms.toFixed(2),
+		"sizeOfCacheableObject (ms)": accounted.ms.toFixed(2),
+		speedup: `${(serialized.ms / accounted.ms).toFixed(1)}x`,
+		"size difference": `${(((accounted.size - serialized.size) / serialized.size) * 100).toFixed(2)}%`,
+	};
+});
+
+console.table(rows);
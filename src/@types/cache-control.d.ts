@@ -0,0 +1,54 @@
+/**
+ * Directives of a Cache-Control header. Delta-seconds directives are undefined when absent.
+ */
+type CacheControl = {
+	noStore: boolean;
+	noCache: boolean;
+	private: boolean;
+	public: boolean;
+	mustRevalidate: boolean;
+	maxAge?: number;
+	sMaxage?: number;
+	staleWhileRevalidate?: number;
+	staleIfError?: number;
+	// Request directives, max-stale without a value accepts any staleness
+	maxStale?: number;
+	minFresh?: number;
+	onlyIfCached: boolean;
+};
+
+/**
+ * How a route treats the Cache-Control and Expires headers of the responses it caches:
+ * - honor: upstream directives decide if and how long a response is cached, the route's windows are fallbacks
+ * - override: upstream directives only decide if a response is cached, the route's windows decide how long
+ * - ignore: upstream directives are ignored
+ */
+type UpstreamCacheControlMode = "honor" | "override" | "ignore";
+
+/**
+ * Freshness windows of a cached entry, in seconds.
+ */
+type FreshnessWindows = {
+	maxAge?: number;
+	staleWhileRevalidate?: number;
+	staleIfError?: number;
+};
+
+/**
+ * Short-lived caching of responses to missing resources or failed requests.
+ */
+type NegativeCacheOptions = {
+	// Seconds the responses are served before the handler is called again
+	maxAge: number;
+	// Statuses cached this way, defaults to 404 and 410
+	statuses?: number[];
+};
+
+/**
+ * Settings of a route deciding if and for how long its responses are cached.
+ */
+type RouteCachePolicy = FreshnessWindows & {
+	upstreamCacheControl?: UpstreamCacheControlMode;
+	cacheableStatuses?: number[];
+	negativeCache?: NegativeCacheOptions;
+};
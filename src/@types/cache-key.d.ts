@@ -0,0 +1,38 @@
+/**
+ * Request components a route adds to the cache key of its responses, on top of the URL.
+ */
+type RouteVary = {
+	// Request headers, e.g. "accept-language" or a tenant header, matched case-insensitively
+	headers?: string[];
+	cookies?: string[];
+	// Query parameters kept in the key, all of them when undefined
+	query?: string[];
+};
+
+/**
+ * Values of the request components taking part in a cache key, as name/value pairs.
+ */
+type CacheKeyComponents = {
+	// Query parameters kept in the key, all of them when undefined
+	query?: string[];
+	headers?: [string, string][];
+	cookies?: [string, string][];
+};
+
+/**
+ * Rules normalizing request URLs before they are keyed, so that equivalent URLs share a cache entry.
+ */
+type CacheKeyNormalization = {
+	// Query parameters left out of the key
+	ignoreQuery?: string[];
+	// Query parameters kept in the key, all of them when undefined
+	allowQuery?: string[];
+	// Leaves out tracking parameters such as utm_source, gclid or fbclid
+	stripTracking?: boolean;
+	// Removes trailing slashes from the path, "/coffee/" is keyed as "/coffee"
+	trailingSlash?: boolean;
+	// Lower-cases the path, "/Coffee" is keyed as "/coffee"
+	lowercase?: boolean;
+	// Leaves out query parameters without a value
+	dropEmpty?: boolean;
+};
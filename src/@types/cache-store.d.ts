@@ -0,0 +1,33 @@
+/**
+ * A cached response with its metadata.
+ */
+type CacheStoreEntry = {
+	value: ResponseCacheableObject;
+	// Size accounted for the entry, in bytes
+	size: number;
+};
+
+type CacheStoreStats = {
+	entries: number;
+	// Sum of the entry sizes, in bytes
+	size: number;
+	// Size beyond which entries are evicted, undefined when unbounded
+	maxSize?: number;
+};
+
+/**
+ * Storage of the cached responses, keyed by request ID. The methods are asynchronous so that
+ * responses may be stored outside of the process.
+ */
+interface CacheStore {
+	get(key: string): Promise<ResponseCacheableObject | undefined>;
+	getEntry(key: string): Promise<CacheStoreEntry | undefined>;
+	set(key: string, value: ResponseCacheableObject): Promise<void>;
+	delete(key: string): Promise<boolean>;
+	has(key: string): Promise<boolean>;
+	keys(): Promise<string[]>;
+	clear(): Promise<void>;
+	stats(): Promise<CacheStoreStats>;
+	// Marks entries as recently used without reading them, for stores evicting the least recently used entries
+	touch?(keys: string[]): Promise<void>;
+}
@@ -0,0 +1,58 @@
+type ConfigRoute = {
+	path: string;
+	// Absolute URL requests are proxied to, may use the path params
+	upstream: string;
+	cache?: boolean;
+	// Freshness windows of cached responses, in seconds
+	maxAge?: number;
+	staleWhileRevalidate?: number;
+	staleIfError?: number;
+	cacheableStatuses?: number[];
+	negativeCache?: NegativeCacheOptions;
+	upstreamCacheControl?: UpstreamCacheControlMode;
+	clientCacheControl?: boolean;
+	coalesceTimeout?: number;
+	vary?: RouteVary;
+	normalize?: CacheKeyNormalization;
+	// Extra headers sent to the upstream
+	headers?: { [name: string]: string };
+	method?: string | string[];
+	hostname?: string;
+};
+
+type CacheStoreKind = "memory" | "sqlite" | "tiered";
+
+type BunBlazeConfig = {
+	server?: {
+		hostname?: string;
+		port?: number;
+		// Path of the status endpoint, disabled when unset
+		statusPath?: string;
+	};
+	cache?: {
+		// Absolute cache size in bytes, takes precedence over memoryPercentage
+		size?: number;
+		// Share of the free memory used by the cache, between 0 and 1
+		memoryPercentage?: number;
+		// Bounds in bytes the cache size is clamped to
+		minSize?: number;
+		maxSize?: number;
+		// Shares of the memory limit above which the cache is shrunk, and down to which it is shrunk
+		highWaterMark?: number;
+		lowWaterMark?: number;
+		// Milliseconds between two memory samples of the watchdog, 0 disables it
+		watchdogInterval?: number;
+		// Minutes between two periodic cache snapshots, 0 or unset disables them
+		snapshotInterval?: number;
+		// Snapshot file, one per instance when several instances run on the same host
+		snapshotPath?: string;
+		// "sqlite" persists the cache on disk, "tiered" keeps the in-memory cache in front of it
+		store?: CacheStoreKind;
+		// Database file of the sqlite store
+		sqlitePath?: string;
+		// Size in bytes beyond which the sqlite store evicts its least recently used entries
+		sqliteMaxSize?: number;
+	};
+	cors?: Partial<CorsConfig>;
+	routes?: ConfigRoute[];
+};
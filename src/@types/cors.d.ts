@@ -0,0 +1,7 @@
+type CorsConfig = {
+	enabled: boolean;
+	allowOrigin: string;
+	allowMethods: string;
+	allowHeaders: string;
+	allowCredentials: string;
+};
@@ -0,0 +1,58 @@
+/**
+ * Where the available memory was read from: the free memory of the host, or the limit of the
+ * cgroup (v1 or v2) the process runs in
+ */
+type MemorySource = "host" | "cgroup v1" | "cgroup v2";
+
+type CgroupMemory = {
+	version: 1 | 2;
+	// Memory limit of the cgroup in bytes
+	limit: number;
+	// Working set of the cgroup in bytes: the charged memory without the inactive page cache
+	usage: number;
+};
+
+type AvailableMemory = {
+	bytes: number;
+	source: MemorySource;
+	// Memory limit of the cgroup, when limited
+	limit?: number;
+};
+
+type CacheBudgetOptions = {
+	// Absolute budget in bytes, takes precedence over percentage
+	size?: number;
+	// Share of the available memory, between 0 and 1, defaults to 0.7
+	percentage?: number;
+	// Bounds the budget is clamped to, in bytes
+	minSize?: number;
+	maxSize?: number;
+};
+
+type CacheBudget = {
+	bytes: number;
+	// "size" when the budget is configured, where the available memory was read from otherwise
+	source: "size" | MemorySource;
+	// Share of the available memory the budget was computed from
+	percentage?: number;
+	// Bound the budget was clamped to
+	clamped?: "min" | "max";
+};
+
+type MemorySample = {
+	// Memory used by the process, or by its cgroup when higher, in bytes
+	used: number;
+	// Memory the process may use in bytes, the cgroup limit when limited
+	limit: number;
+};
+
+type MemoryWatchdogStatus = {
+	// Size in bytes the cache may currently grow to, null when unbounded
+	budget: number | null;
+	// Whether the cache is shrunk and refuses new entries
+	underPressure: boolean;
+	// Entries evicted to relieve memory pressure since the watchdog was created
+	pressureEvictions: number;
+	// Last memory sample, undefined before the first check
+	memory?: MemorySample;
+};
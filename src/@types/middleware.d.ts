@@ -0,0 +1,16 @@
+type MiddlewareContext = {
+	// Request passed to the rest of the chain, middleware may replace it
+	request: Request;
+	// Matched route and its params, set once the route is resolved
+	route?: CompiledRoute;
+	params?: RouteParams;
+	// Free-form storage shared by the middleware of a request
+	state: { [key: string]: unknown };
+};
+
+type MiddlewareNext = () => Promise<Response>;
+
+type Middleware = (
+	ctx: MiddlewareContext,
+	next: MiddlewareNext,
+) => Promise<Response> | Response;
@@ -2,20 +2,95 @@ type RouteParams = { [key: string]: string | undefined };
 
 type RouteResponse = Response | JsonValue;
 
-type Route = {
-	path: string;
+type RouteHandler = (
+	request: Request,
+	params?: RouteParams,
+	route?: CompiledRoute,
+) => Promise<RouteResponse> | RouteResponse;
+
+/**
+ * Handlers keyed by HTTP method, e.g. `{ GET: listUsers, POST: createUser }`
+ */
+type RouteMethodHandlers = { [method: string]: RouteHandler };
+
+/**
+ * Options shared by a route group with all of its routes
+ */
+type RouteGroupOptions = {
 	cache?: boolean;
-	handler: (
-		request: Request,
-		params?: RouteParams,
-	) => Promise<RouteResponse> | RouteResponse;
+	// Seconds a cached response is served without revalidation
+	maxAge?: number;
+	// Seconds past maxAge a cached response is still served while revalidated in the background
+	staleWhileRevalidate?: number;
+	// Seconds past maxAge a cached response is served when the handler fails
+	staleIfError?: number;
+	// Statuses of the responses that are cached, defaults to 200, 203, 204, 301, 404 and 410
+	cacheableStatuses?: number[];
+	// Caches missing resources or errors for a short time
+	negativeCache?: NegativeCacheOptions;
+	// How Cache-Control and Expires of the responses are treated, defaults to "honor"
+	upstreamCacheControl?: UpstreamCacheControlMode;
+	// Whether clients may bypass the cache with Cache-Control / Pragma, defaults to true
+	clientCacheControl?: boolean;
+	// Milliseconds concurrent cache misses wait for a shared handler call, 0 disables coalescing
+	coalesceTimeout?: number;
+	// Request headers, cookies and query parameters the cache key of the responses depends on
+	vary?: RouteVary;
+	// Rules normalizing the request URLs before they are keyed, e.g. stripping tracking parameters
+	normalize?: CacheKeyNormalization;
+	cors?: Partial<CorsConfig>;
+	// Base URL that relative proxy URLs are resolved against
+	upstream?: string;
+	// Hostname pattern, e.g. "api.example.test" or ":tenant.example.test"
+	hostname?: string;
+	// Run around the handler, after the middleware of the enclosing groups
+	middleware?: Middleware[];
+};
+
+type Route = RouteGroupOptions & {
+	path: string;
+	// Full URLPattern init (protocol, port, search...) merged over path and hostname
+	pattern?: URLPatternInit;
+	method?: string | string[];
+	handler: RouteHandler | RouteMethodHandlers;
+	// Identifies the route definition across reloads, defaults to the handler source
+	fingerprint?: string;
 };
 
+type RouteGroup = {
+	prefix: string;
+	options: RouteGroupOptions;
+	routes: RouteDefinition[];
+};
+
+type RouteDefinition = Route | RouteGroup;
+
 type CompiledRoute = {
 	path: URLPattern;
 	cache: boolean;
-	handler: (
-		request: Request,
-		params?: RouteParams,
-	) => Promise<RouteResponse> | RouteResponse;
+	maxAge?: number;
+	staleWhileRevalidate?: number;
+	staleIfError?: number;
+	cacheableStatuses?: number[];
+	negativeCache?: NegativeCacheOptions;
+	upstreamCacheControl?: UpstreamCacheControlMode;
+	clientCacheControl?: boolean;
+	coalesceTimeout?: number;
+	vary?: RouteVary;
+	normalize?: CacheKeyNormalization;
+	cors?: Partial<CorsConfig>;
+	upstream?: string;
+	middleware?: Middleware[];
+	// Upper-cased methods accepted by the route, undefined means any method
+	methods?: string[];
+	handler: RouteHandler;
+	fingerprint?: string;
+};
+
+// Mutable reference to the routes served by `run()`, swapped on reload
+type RoutesRef = { current: CompiledRoute[] };
+
+type RouteMatch = {
+	route: CompiledRoute;
+	params: RouteParams;
 };
@@ -1,5 +1,5 @@
 import { coffeeRoute } from "./routes/coffee";
 
-export const routes: Route[] = [
+export const routes: RouteDefinition[] = [
   coffeeRoute,
 ];
\ No newline at end of file
@@ -1,11 +1,14 @@
-import type { LRUCache } from "lru-cache";
 import type { Server } from "bun";
 import { test, expect, describe, beforeAll } from "bun:test";
 import { run } from "../../server"; // Export a function that creates the server
 import { getFreeMemoryInBytes } from "../../utils/memory.util";
-import { serialize } from "bun:jsc";
 import { getCacheInstance, initCacheInstance } from "../../utils/cache.util";
+import { sizeOfCacheableObject } from "../../utils/size.util";
+import { COUNTERS, Counters } from "../../utils/metrics.util";
+import { RouteError } from "../../utils/error.util";
 import { compileRoute } from "../../utils/router.util";
+import { LRUCacheStore } from "../../utils/cache-store.util";
+import { MemoryWatchdog } from "../../utils/watchdog.util";
 import {
 	ENCODINGS,
 	compressResponse,
@@ -16,7 +19,36 @@ import {
 describe("Server", async () => {
 	let server: Server | undefined;
 	let baseUrl: string | undefined;
-	let cache: LRUCache<string, ResponseCacheableObject> | undefined;
+	let cache: CacheStore | undefined;
+	const counters = new Counters();
+	let freshHandlerCalls = 0;
+	let noStoreHandlerCalls = 0;
+	let clientCacheHandlerCalls = 0;
+	let coalesceHandlerCalls = 0;
+	let sessionHandlerCalls = 0;
+	// Methods received by the /head handler
+	const headHandlerMethods: string[] = [];
+	let flakyHandlerFails = false;
+	let missingHandlerCalls = 0;
+	let serverErrorHandlerCalls = 0;
+	let localizedHandlerCalls = 0;
+	let negotiatedHandlerCalls = 0;
+	let catalogHandlerCalls = 0;
+	// Conditional headers received by the /versioned handler
+	const versionedConditions: (string | null)[] = [];
+
+	/**
+	 * Ages a cached entry by moving its cache date to the past.
+	 */
+	const setCacheDate = async (requestId: string, secondsAgo: number) => {
+		const entry = (await cache?.get(requestId)) as ResponseCacheableObject;
+		const headers = new Headers(entry.headers);
+		headers.set(
+			"x-cache-date",
+			new Date(Date.now() - secondsAgo * 1000).toISOString(),
+		);
+		await cache?.set(requestId, { ...entry, headers: Array.from(headers.entries()) });
+	};
 	beforeAll(async () => {
 		/**
 		 * Performs garbage collection and calculates the usable bytes for the cache based on the system's available memory.
@@ -26,24 +58,13 @@ describe("Server", async () => {
 		// 70% of memory
 		const usableBytes = Math.floor(availableBytes * 0.7);
 
-		/**
-		 * Calculates the size of an object in bytes. This is used in the cache's size calculation logic.
-		 *
-		 * @param {ResponseCacheableObject} obj - The object whose size needs to be calculated.
-		 * @returns {number} The size of the object in bytes.
-		 */
-		function sizeOf(obj: ResponseCacheableObject): number {
-			const serializedObj = serialize(obj);
-			return serializedObj.byteLength + 50;
-		}
-
 		/**
 		 * Configuration options for the LRUCache. It includes settings for
 		 * maximum cache size, size calculation method, and stale item handling.
 		 */
 		const options = {
 			maxSize: usableBytes,
-			sizeCalculation: sizeOf,
+			sizeCalculation: sizeOfCacheableObject,
 
 			// return stale items before removing from cache?
 			allowStale: true,
@@ -55,6 +76,181 @@ describe("Server", async () => {
 		 * Compiles raw routes into a format suitable for matching against incoming requests.
 		 */
 		const routes = compileRoute([
+			{
+				path: "/items",
+				hostname: "api.example.test",
+				maxAge: 60,
+				handler: () => "Items from api",
+			},
+			{
+				path: "/items",
+				hostname: "cdn.example.test",
+				maxAge: 60,
+				handler: () => "Items from cdn",
+			},
+			{
+				path: "/missing",
+				negativeCache: { maxAge: 30 },
+				handler: () => {
+					missingHandlerCalls += 1;
+					throw new RouteError("Not found upstream", 404);
+				},
+			},
+			{
+				path: "/server-error",
+				handler: () => {
+					serverErrorHandlerCalls += 1;
+					return new Response("Upstream failed", { status: 500 });
+				},
+			},
+			{
+				path: "/localized",
+				maxAge: 60,
+				vary: { headers: ["Accept-Language"], query: ["page"] },
+				handler: (request) => {
+					localizedHandlerCalls += 1;
+					return `Content in ${request.headers.get("accept-language")}`;
+				},
+			},
+			{
+				path: "/catalog/:section",
+				maxAge: 60,
+				normalize: { stripTracking: true, lowercase: true, dropEmpty: true },
+				handler: () => {
+					catalogHandlerCalls += 1;
+					return "Catalog";
+				},
+			},
+			{
+				path: "/versioned",
+				maxAge: 1,
+				staleWhileRevalidate: 60,
+				handler: (request) => {
+					const ifNoneMatch = request.headers.get("if-none-match");
+					versionedConditions.push(ifNoneMatch);
+					if (ifNoneMatch === '"v1"') {
+						return new Response(null, {
+							status: 304,
+							headers: { ETag: '"v1"', "X-Revalidated": "yes" },
+						});
+					}
+					return new Response("Version 1", { headers: { ETag: '"v1"' } });
+				},
+			},
+			{
+				path: "/pass-through",
+				cache: false,
+				handler: (request) => {
+					const headers = { ETag: '"upstream-v1"' };
+					if (request.headers.get("if-none-match") === '"upstream-v1"') {
+						return new Response(null, { status: 304, headers });
+					}
+					return new Response("Passed through", { headers });
+				},
+			},
+			{
+				path: "/negotiated",
+				maxAge: 60,
+				handler: (request) => {
+					negotiatedHandlerCalls += 1;
+					const type = request.headers.get("accept") || "text/plain";
+					return new Response(`Content as ${type}`, {
+						headers: { "Content-Type": type, Vary: "Accept, Accept-Encoding" },
+					});
+				},
+			},
+			{
+				path: "/no-content",
+				handler: () => new Response(null, { status: 204 }),
+			},
+			{
+				path: "/flaky",
+				maxAge: 1,
+				staleWhileRevalidate: 5,
+				staleIfError: 60,
+				handler: () => {
+					if (flakyHandlerFails) {
+						throw new Error("Simulated upstream outage");
+					}
+					return "Flaky content";
+				},
+			},
+			{
+				path: "/coalesce",
+				handler: async () => {
+					coalesceHandlerCalls += 1;
+					await Bun.sleep(50);
+					return "Shared";
+				},
+			},
+			{
+				path: "/head",
+				maxAge: 60,
+				handler: async (request: Request) => {
+					headHandlerMethods.push(request.method);
+					await Bun.sleep(50);
+					return request.method === "HEAD" ? "" : "Full content";
+				},
+			},
+			{
+				path: "/session",
+				handler: async (request: Request) => {
+					sessionHandlerCalls += 1;
+					const user = request.headers.get("x-user") || "anonymous";
+					await Bun.sleep(50);
+					return new Response(`Hello ${user}`, {
+						headers: {
+							"cache-control": "private",
+							"set-cookie": `sid=${user}`,
+						},
+					});
+				},
+			},
+			{
+				path: "/client-cache",
+				maxAge: 60,
+				handler: () => {
+					clientCacheHandlerCalls += 1;
+					return `Call ${clientCacheHandlerCalls}`;
+				},
+			},
+			{
+				path: "/client-cache-disabled",
+				maxAge: 60,
+				clientCacheControl: false,
+				handler: () => "Always cached",
+			},
+			{
+				path: "/no-store",
+				handler: () => {
+					noStoreHandlerCalls += 1;
+					return new Response("Not stored", {
+						headers: { "cache-control": "no-store" },
+					});
+				},
+			},
+			{
+				path: "/no-store-ignored",
+				upstreamCacheControl: "ignore",
+				handler: () => {
+					return new Response("Stored anyway", {
+						headers: { "cache-control": "no-store" },
+					});
+				},
+			},
+			{
+				path: "/fresh",
+				maxAge: 60,
+				staleWhileRevalidate: 60,
+				handler: () => {
+					freshHandlerCalls += 1;
+					return new Response(`Call ${freshHandlerCalls}`, {
+						headers: {
+							"content-type": "text/plain",
+						},
+					});
+				},
+			},
 			{
 				path: "/cache",
 				handler: () => {
@@ -71,6 +267,41 @@ describe("Server", async () => {
 					throw new Error("Simulated server error");
 				},
 			},
+			{
+				path: "/methods",
+				cache: false,
+				handler: {
+					GET: () => ({ method: "GET" }),
+					POST: () => ({ method: "POST" }),
+				},
+			},
+			{
+				path: "/methods-without-cors",
+				cache: false,
+				cors: { enabled: false },
+				handler: { GET: () => ({ method: "GET" }) },
+			},
+			{
+				path: "/middleware",
+				middleware: [
+					async (ctx, next) => {
+						if (ctx.request.headers.get("x-block")) {
+							return new Response("Blocked", { status: 403 });
+						}
+						ctx.request = new Request(ctx.request, {
+							headers: { "x-greeting": "Hello from middleware" },
+						});
+						return next();
+					},
+				],
+				handler: (request) => {
+					return new Response(request.headers.get("x-greeting"), {
+						headers: {
+							"content-type": "text/plain",
+						},
+					});
+				},
+			},
 			{
 				path: "/error-cache",
 				handler: () => {
@@ -88,10 +319,28 @@ describe("Server", async () => {
 		 * and routes them based on the defined route handlers, while also handling CORS and caching.
 		 */
 		server = await run(routes, {
-			cache,
+			store: cache,
 			hostname,
 			port,
 			getRequestId,
+			counters,
+			statusPath: "/__status",
+			middleware: [
+				async (ctx, next) => {
+					const response = await next();
+					response.headers.set("X-Served-By", "BunBlaze");
+					return response;
+				},
+				async (ctx, next) => {
+					if (
+						new URL(ctx.request.url).pathname === "/__status" &&
+						ctx.request.headers.get("authorization") !== "Bearer status-token"
+					) {
+						return new Response("Unauthorized", { status: 401 });
+					}
+					return next();
+				},
+			],
 		});
 
 		baseUrl = `http://${server.hostname}:${server.port}`;
@@ -176,6 +425,67 @@ describe("Server", async () => {
 		expect(responseBody).toContain("Page not found!"); // or any specific message your server returns
 	});
 
+	test("Server dispatches requests by method", async () => {
+		if (!server) {
+			throw new Error("Server not initialized");
+		}
+		const methodsUrl = new URL("/methods", baseUrl).toString();
+
+		const response = await server.fetch(
+			new Request(methodsUrl, { method: "POST" }),
+		);
+		expect(response.status).toBe(200);
+		// biome-ignore lint/suspicious/noExplicitAny: any is needed here
+		const data = (await response.json()) as any;
+		expect(data.method).toBe("POST");
+	});
+
+	test("Server responds with 405 for unsupported methods", async () => {
+		if (!server) {
+			throw new Error("Server not initialized");
+		}
+		const methodsUrl = new URL("/methods", baseUrl).toString();
+
+		const response = await server.fetch(
+			new Request(methodsUrl, { method: "DELETE" }),
+		);
+		expect(response.status).toBe(405);
+		expect(response.headers.get("allow")).toBe("GET, HEAD, POST, OPTIONS");
+		expect(response.headers.get("access-control-allow-origin")).toBe("*");
+
+		// The CORS policy of the route applies, not the global one
+		const withoutCorsResponse = await server.fetch(
+			new Request(new URL("/methods-without-cors", baseUrl).toString(), {
+				method: "DELETE",
+			}),
+		);
+		expect(withoutCorsResponse.status).toBe(405);
+		expect(withoutCorsResponse.headers.get("allow")).toBe("GET, HEAD");
+		expect(withoutCorsResponse.headers.has("access-control-allow-origin")).toBe(false);
+	});
+
+	test("Server runs global and route middleware", async () => {
+		if (!server) {
+			throw new Error("Server not initialized");
+		}
+		const middlewareUrl = new URL("/middleware", baseUrl).toString();
+
+		const response = await server.fetch(new Request(middlewareUrl));
+		expect(await response.text()).toBe("Hello from middleware");
+		expect(response.headers.get("X-Served-By")).toBe("BunBlaze");
+
+		// Served from the cache, the middleware still runs
+		const cachedResponse = await server.fetch(new Request(middlewareUrl));
+		expect(cachedResponse.headers.get("X-Cache")).toBe("HIT");
+		expect(cachedResponse.headers.get("X-Served-By")).toBe("BunBlaze");
+
+		const blockedResponse = await server.fetch(
+			new Request(middlewareUrl, { headers: { "x-block": "1" } }),
+		);
+		expect(blockedResponse.status).toBe(403);
+		expect(blockedResponse.headers.get("X-Served-By")).toBe("BunBlaze");
+	});
+
 	test("Server works with staleWhileRevalidate", async () => {
 		if (!server) {
 			throw new Error("Server not initialized");
@@ -196,7 +506,7 @@ describe("Server", async () => {
 		const cacheUrl = new URL("/cache", baseUrl).toString();
 		const mockRequest = new Request(cacheUrl);
 		const requestId = getRequestId(mockRequest);
-		cache.set(requestId, mockCacheableData);
+		await cache.set(requestId, mockCacheableData);
 		// Simulate a request to a non-existent endpoint
 		const response = await server.fetch(new Request(cacheUrl));
 
@@ -225,7 +535,7 @@ describe("Server", async () => {
 		const staleCacheObject = await convertToCacheableObject(staleResponse);
 		const requestUrl = new URL("/cache", baseUrl).toString();
 		const requestId = getRequestId(new Request(requestUrl));
-		cache.set(requestId, staleCacheObject);
+		await cache.set(requestId, staleCacheObject);
 
 		// Step 1: Make a request to the server and expect stale content
 		const firstResponse = await server.fetch(new Request(requestUrl));
@@ -243,7 +553,7 @@ describe("Server", async () => {
 		await new Promise((resolve) => setTimeout(resolve, 100)); // Adjust time as needed
 
 		// Optionally, verify that the cache has been updated with fresh content
-		const updatedCacheObject = cache.get(requestId);
+		const updatedCacheObject = await cache.get(requestId);
 
 		const updatedResponse = new Response(updatedCacheObject?.body, {
 			headers: new Headers(updatedCacheObject?.headers) as Headers,
@@ -298,7 +608,7 @@ describe("Server", async () => {
 		const initialCacheObject = await convertToCacheableObject(initialResponse);
 		const errorCacheUrl = new URL("/error-cache", baseUrl).toString();
 		const requestId = getRequestId(new Request(errorCacheUrl));
-		cache.set(requestId, initialCacheObject);
+		await cache.set(requestId, initialCacheObject);
 
 		// Step 1: Make a request and expect initial success content
 		const firstResponse = await server.fetch(new Request(errorCacheUrl));
@@ -316,4 +626,559 @@ describe("Server", async () => {
 			"Simulated server error on revalidation",
 		);
 	});
+
+	test("Server serves fresh entries without revalidating them", async () => {
+		if (!server || !cache) {
+			throw new Error("Server or cache not initialized");
+		}
+		const freshUrl = new URL("/fresh", baseUrl).toString();
+		const requestId = getRequestId(new Request(freshUrl));
+
+		const missResponse = await server.fetch(new Request(freshUrl));
+		expect(await missResponse.text()).toBe("Call 1");
+		expect(missResponse.headers.get("X-Cache")).toBe("MISS");
+
+		// Within maxAge
+		const hitResponse = await server.fetch(new Request(freshUrl));
+		expect(await hitResponse.text()).toBe("Call 1");
+		expect(hitResponse.headers.get("X-Cache")).toBe("HIT");
+		expect(hitResponse.headers.get("Age")).toBe("0");
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		expect(freshHandlerCalls).toBe(1);
+
+		// Within staleWhileRevalidate
+		await setCacheDate(requestId, 90);
+		const staleResponse = await server.fetch(new Request(freshUrl));
+		expect(await staleResponse.text()).toBe("Call 1");
+		expect(staleResponse.headers.get("X-Cache")).toBe("STALE");
+		expect(staleResponse.headers.get("Age")).toBe("90");
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		expect(freshHandlerCalls).toBe(2);
+
+		// Past both windows
+		await setCacheDate(requestId, 150);
+		const expiredResponse = await server.fetch(new Request(freshUrl));
+		expect(await expiredResponse.text()).toBe("Call 3");
+		expect(expiredResponse.headers.get("X-Cache")).toBe("MISS");
+	});
+
+	test("Server honors upstream Cache-Control unless the route ignores it", async () => {
+		if (!server) {
+			throw new Error("Server not initialized");
+		}
+		const noStoreUrl = new URL("/no-store", baseUrl).toString();
+		await server.fetch(new Request(noStoreUrl));
+		const response = await server.fetch(new Request(noStoreUrl));
+		expect(await response.text()).toBe("Not stored");
+		expect(response.headers.get("X-Cache")).toBe("MISS");
+		expect(noStoreHandlerCalls).toBe(2);
+
+		const ignoredUrl = new URL("/no-store-ignored", baseUrl).toString();
+		await server.fetch(new Request(ignoredUrl));
+		const ignoredResponse = await server.fetch(new Request(ignoredUrl));
+		expect(await ignoredResponse.text()).toBe("Stored anyway");
+		expect(ignoredResponse.headers.get("X-Cache")).toBe("HIT");
+	});
+
+	test("Server respects client cache directives", async () => {
+		if (!server) {
+			throw new Error("Server not initialized");
+		}
+		const clientCacheUrl = new URL("/client-cache", baseUrl).toString();
+
+		// Nothing cached yet
+		const onlyIfCachedResponse = await server.fetch(
+			new Request(clientCacheUrl, { headers: { "cache-control": "only-if-cached" } }),
+		);
+		expect(onlyIfCachedResponse.status).toBe(504);
+
+		await server.fetch(new Request(clientCacheUrl));
+		const cachedResponse = await server.fetch(
+			new Request(clientCacheUrl, { headers: { "cache-control": "only-if-cached" } }),
+		);
+		expect(await cachedResponse.text()).toBe("Call 1");
+		expect(cachedResponse.headers.get("X-Cache")).toBe("HIT");
+
+		// Bypass and refresh the entry
+		const noCacheResponse = await server.fetch(
+			new Request(clientCacheUrl, { headers: { pragma: "no-cache" } }),
+		);
+		expect(await noCacheResponse.text()).toBe("Call 2");
+		expect(noCacheResponse.headers.get("X-Cache")).toBe("MISS");
+		const refreshedResponse = await server.fetch(new Request(clientCacheUrl));
+		expect(await refreshedResponse.text()).toBe("Call 2");
+
+		// Routes may refuse client-driven bypasses
+		const disabledUrl = new URL("/client-cache-disabled", baseUrl).toString();
+		await server.fetch(new Request(disabledUrl));
+		const disabledResponse = await server.fetch(
+			new Request(disabledUrl, { headers: { "cache-control": "no-cache" } }),
+		);
+		expect(disabledResponse.headers.get("X-Cache")).toBe("HIT");
+	});
+
+	test("Server coalesces concurrent cache misses", async () => {
+		if (!server) {
+			throw new Error("Server not initialized");
+		}
+		const coalesceUrl = new URL("/coalesce", baseUrl).toString();
+
+		const responses = await Promise.all(
+			Array.from({ length: 5 }, () => server?.fetch(new Request(coalesceUrl))),
+		);
+		for (const response of responses) {
+			expect(await response?.text()).toBe("Shared");
+		}
+		expect(coalesceHandlerCalls).toBe(1);
+	});
+
+	test("Server does not share responses that are not cached between concurrent misses", async () => {
+		if (!server) {
+			throw new Error("Server not initialized");
+		}
+		const sessionUrl = new URL("/session", baseUrl).toString();
+		const users = ["alice", "bob", "carol"];
+
+		const responses = await Promise.all(
+			users.map((user) =>
+				server?.fetch(new Request(sessionUrl, { headers: { "x-user": user } })),
+			),
+		);
+		for (const [index, response] of responses.entries()) {
+			expect(await response?.text()).toBe(`Hello ${users[index]}`);
+			expect(response?.headers.get("set-cookie")).toBe(`sid=${users[index]}`);
+		}
+		expect(sessionHandlerCalls).toBe(users.length);
+	});
+
+	test("Server fills the cache of HEAD requests with a GET", async () => {
+		if (!server) {
+			throw new Error("Server not initialized");
+		}
+		const headUrl = new URL("/head", baseUrl).toString();
+
+		const [headResponse, getResponse] = await Promise.all([
+			server.fetch(new Request(headUrl, { method: "HEAD" })),
+			server.fetch(new Request(headUrl)),
+		]);
+		expect(headResponse.status).toBe(200);
+		expect(getResponse.status).toBe(200);
+		expect(await getResponse.text()).toBe("Full content");
+		expect(headHandlerMethods).toEqual(["GET"]);
+
+		const hitResponse = await server.fetch(new Request(headUrl));
+		expect(hitResponse.headers.get("X-Cache")).toBe("HIT");
+		expect(await hitResponse.text()).toBe("Full content");
+	});
+
+	test("Server serves stale entries when the handler fails", async () => {
+		if (!server || !cache) {
+			throw new Error("Server or cache not initialized");
+		}
+		const flakyUrl = new URL("/flaky", baseUrl).toString();
+		const requestId = getRequestId(new Request(flakyUrl));
+		counters.reset();
+		await server.fetch(new Request(flakyUrl));
+		flakyHandlerFails = true;
+
+		// A failed background revalidation keeps the entry
+		await setCacheDate(requestId, 3);
+		const staleResponse = await server.fetch(new Request(flakyUrl));
+		expect(staleResponse.headers.get("X-Cache")).toBe("STALE");
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		expect(await cache.get(requestId)).toBeDefined();
+		expect(counters.get()[COUNTERS.REVALIDATION_FAILURES]).toBe(1);
+
+		// Past staleWhileRevalidate, within staleIfError
+		await setCacheDate(requestId, 30);
+		const errorResponse = await server.fetch(new Request(flakyUrl));
+		expect(await errorResponse.text()).toBe("Flaky content");
+		expect(errorResponse.headers.get("X-Cache")).toBe("STALE-ERROR");
+		expect(counters.get()[COUNTERS.STALE_IF_ERROR_HITS]).toBe(1);
+
+		// The counters are reported on the status endpoint
+		const statusResponse = await server.fetch(
+			new Request(new URL("/__status", baseUrl).toString(), {
+				headers: { authorization: "Bearer status-token" },
+			}),
+		);
+		// biome-ignore lint/suspicious/noExplicitAny: any is needed here
+		const status = (await statusResponse.json()) as any;
+		expect(status.counters[COUNTERS.REVALIDATION_FAILURES]).toBe(1);
+		expect(status.counters[COUNTERS.STALE_IF_ERROR_HITS]).toBe(1);
+		expect(status.cache.entries).toBeGreaterThan(0);
+
+		// Past staleIfError
+		await setCacheDate(requestId, 90);
+		const failedResponse = await server.fetch(new Request(flakyUrl));
+		expect(failedResponse.status).toBe(500);
+		expect(failedResponse.headers.get("X-Cache")).toBe("ERROR");
+		flakyHandlerFails = false;
+	});
+
+	test("Server caches cacheable statuses and negative responses", async () => {
+		if (!server || !cache) {
+			throw new Error("Server or cache not initialized");
+		}
+		const missingUrl = new URL("/missing", baseUrl).toString();
+		const missingResponse = await server.fetch(new Request(missingUrl));
+		expect(missingResponse.status).toBe(404);
+		expect(missingResponse.headers.get("X-Cache")).toBe("MISS");
+		const cachedMissingResponse = await server.fetch(new Request(missingUrl));
+		expect(cachedMissingResponse.status).toBe(404);
+		expect(cachedMissingResponse.headers.get("X-Cache")).toBe("HIT");
+		expect(missingHandlerCalls).toBe(1);
+
+		// Past the negative cache TTL
+		await setCacheDate(getRequestId(new Request(missingUrl)), 31);
+		await server.fetch(new Request(missingUrl));
+		expect(missingHandlerCalls).toBe(2);
+
+		const serverErrorUrl = new URL("/server-error", baseUrl).toString();
+		await server.fetch(new Request(serverErrorUrl));
+		const serverErrorResponse = await server.fetch(new Request(serverErrorUrl));
+		expect(serverErrorResponse.status).toBe(500);
+		expect(serverErrorResponse.headers.get("X-Cache")).toBe("MISS");
+		expect(serverErrorHandlerCalls).toBe(2);
+
+		const noContentUrl = new URL("/no-content", baseUrl).toString();
+		await server.fetch(new Request(noContentUrl));
+		const noContentResponse = await server.fetch(new Request(noContentUrl));
+		expect(noContentResponse.status).toBe(204);
+		expect(noContentResponse.headers.get("X-Cache")).toBe("HIT");
+	});
+
+	test("Server keys cached responses on the route's vary components", async () => {
+		if (!server) {
+			throw new Error("Server not initialized");
+		}
+		const localizedUrl = new URL("/localized?page=1", baseUrl).toString();
+		const fetchLocalized = (url: string, language: string) =>
+			server?.fetch(
+				new Request(url, { headers: { "Accept-Language": language } }),
+			) as Promise<Response>;
+
+		const english = await fetchLocalized(localizedUrl, "en");
+		expect(await english.text()).toBe("Content in en");
+		expect(english.headers.get("Vary")).toBe("accept-language");
+		const french = await fetchLocalized(localizedUrl, "fr");
+		expect(await french.text()).toBe("Content in fr");
+		expect(french.headers.get("X-Cache")).toBe("MISS");
+
+		// Query parameters left out of the key share the entry
+		const tracked = await fetchLocalized(`${localizedUrl}&utm_source=mail`, "en");
+		expect(await tracked.text()).toBe("Content in en");
+		expect(tracked.headers.get("X-Cache")).toBe("HIT");
+		expect(localizedHandlerCalls).toBe(2);
+	});
+
+	test("Server honors the Vary header of the responses", async () => {
+		if (!server || !cache) {
+			throw new Error("Server or cache not initialized");
+		}
+		const negotiatedUrl = new URL("/negotiated", baseUrl).toString();
+		const fetchNegotiated = (accept: string) =>
+			server?.fetch(
+				new Request(negotiatedUrl, { headers: { Accept: accept } }),
+			) as Promise<Response>;
+
+		const json = await fetchNegotiated("application/json");
+		expect(await json.text()).toBe("Content as application/json");
+		const html = await fetchNegotiated("text/html");
+		expect(await html.text()).toBe("Content as text/html");
+		expect(html.headers.get("X-Cache")).toBe("MISS");
+
+		const cachedJson = await fetchNegotiated("application/json");
+		expect(await cachedJson.text()).toBe("Content as application/json");
+		expect(cachedJson.headers.get("X-Cache")).toBe("HIT");
+		expect(negotiatedHandlerCalls).toBe(2);
+
+		// Concurrent misses with different headers do not share the response
+		await cache.clear();
+		const responses = await Promise.all(
+			["text/csv", "text/xml"].map((accept) => fetchNegotiated(accept)),
+		);
+		expect(await responses[0].text()).toBe("Content as text/csv");
+		expect(await responses[1].text()).toBe("Content as text/xml");
+	});
+
+	test("Server normalizes URLs before keying them", async () => {
+		if (!server) {
+			throw new Error("Server not initialized");
+		}
+		const urls = [
+			"/catalog/books?page=2",
+			"/catalog/Books?page=2&utm_source=mail",
+			"/catalog/books?fbclid=abc&sort=&page=2",
+		];
+		const responses = [];
+		for (const url of urls) {
+			responses.push(await server.fetch(new Request(new URL(url, baseUrl).toString())));
+		}
+		expect(responses.map((response) => response.headers.get("X-Cache"))).toEqual([
+			"MISS",
+			"HIT",
+			"HIT",
+		]);
+		expect(catalogHandlerCalls).toBe(1);
+	});
+
+	test("Server keeps the responses of virtual hosts sharing a path apart", async () => {
+		if (!server) {
+			throw new Error("Server not initialized");
+		}
+		const apiResponse = await server.fetch(new Request("http://api.example.test/items"));
+		expect(await apiResponse.text()).toBe("Items from api");
+		const cdnResponse = await server.fetch(new Request("http://cdn.example.test/items"));
+		expect(cdnResponse.headers.get("X-Cache")).toBe("MISS");
+		expect(await cdnResponse.text()).toBe("Items from cdn");
+		const cdnHit = await server.fetch(new Request("http://cdn.example.test/items"));
+		expect(cdnHit.headers.get("X-Cache")).toBe("HIT");
+		expect(await cdnHit.text()).toBe("Items from cdn");
+	});
+
+	test("Server answers conditional requests with 304", async () => {
+		if (!server) {
+			throw new Error("Server not initialized");
+		}
+		const conditionalUrl = new URL("/coalesce?conditional=1", baseUrl).toString();
+		const missResponse = await server.fetch(new Request(conditionalUrl));
+		const etag = missResponse.headers.get("ETag") as string;
+		const lastModified = missResponse.headers.get("Last-Modified") as string;
+		expect(etag).toMatch(/^"[0-9a-f]+"$/);
+		expect(lastModified).toBeTruthy();
+
+		const hitResponse = await server.fetch(
+			new Request(conditionalUrl, { headers: { "If-None-Match": `"other", ${etag}` } }),
+		);
+		expect(hitResponse.status).toBe(304);
+		expect(hitResponse.headers.get("ETag")).toBe(etag);
+		expect(hitResponse.headers.get("X-Cache")).toBe("HIT");
+		expect(await hitResponse.text()).toBe("");
+
+		const modifiedResponse = await server.fetch(
+			new Request(conditionalUrl, { headers: { "If-None-Match": '"other"' } }),
+		);
+		expect(modifiedResponse.status).toBe(200);
+
+		const sinceResponse = await server.fetch(
+			new Request(conditionalUrl, { headers: { "If-Modified-Since": lastModified } }),
+		);
+		expect(sinceResponse.status).toBe(304);
+
+		// The miss path answers 304 as well
+		const missUrl = new URL("/coalesce?conditional=2", baseUrl).toString();
+		const conditionalMiss = await server.fetch(
+			new Request(missUrl, { headers: { "If-None-Match": etag } }),
+		);
+		expect(conditionalMiss.status).toBe(304);
+		expect(conditionalMiss.headers.get("X-Cache")).toBe("MISS");
+	});
+
+	test("Server keeps the upstream ETag of responses that are not cached", async () => {
+		if (!server) {
+			throw new Error("Server not initialized");
+		}
+		const passThroughUrl = new URL("/pass-through", baseUrl).toString();
+
+		const response = await server.fetch(new Request(passThroughUrl));
+		expect(response.status).toBe(200);
+		expect(response.headers.get("ETag")).toBe('"upstream-v1"');
+		expect(await response.text()).toBe("Passed through");
+
+		const notModified = await server.fetch(
+			new Request(passThroughUrl, {
+				headers: { "If-None-Match": '"upstream-v1"', "Accept-Encoding": "gzip" },
+			}),
+		);
+		expect(notModified.status).toBe(304);
+		expect(notModified.headers.get("ETag")).toBe('"upstream-v1"');
+	});
+
+	test("Server revalidates entries with the upstream validators", async () => {
+		if (!server || !cache) {
+			throw new Error("Server or cache not initialized");
+		}
+		const versionedUrl = new URL("/versioned", baseUrl).toString();
+		const requestId = getRequestId(new Request(versionedUrl));
+
+		// The client's validators are not passed to the handler
+		const missResponse = await server.fetch(
+			new Request(versionedUrl, { headers: { "If-None-Match": '"v1"' } }),
+		);
+		expect(missResponse.status).toBe(200);
+		expect(await missResponse.text()).toBe("Version 1");
+		expect(missResponse.headers.has("x-cache-upstream-etag")).toBe(false);
+		expect(versionedConditions).toEqual([null]);
+
+		const cachedBody = (await cache.get(requestId))?.body;
+		await setCacheDate(requestId, 5);
+		const staleResponse = await server.fetch(new Request(versionedUrl));
+		expect(staleResponse.headers.get("X-Cache")).toBe("STALE");
+		await new Promise((resolve) => setTimeout(resolve, 50));
+
+		// The 304 renews the entry without replacing its content
+		expect(versionedConditions).toEqual([null, '"v1"']);
+		const entry = (await cache.get(requestId)) as ResponseCacheableObject;
+		expect(entry.body).toBe(cachedBody as Uint8Array);
+		const entryHeaders = new Headers(entry.headers);
+		expect(entryHeaders.get("x-revalidated")).toBe("yes");
+		const hitResponse = await server.fetch(new Request(versionedUrl));
+		expect(hitResponse.headers.get("X-Cache")).toBe("HIT");
+		expect(await hitResponse.text()).toBe("Version 1");
+	});
+
+	test("Server instances keep their responses in their own store", async () => {
+		let calls = 0;
+		const tenantRoutes = compileRoute([
+			{
+				path: "/tenant",
+				maxAge: 60,
+				handler: () => {
+					calls += 1;
+					return `Call ${calls}`;
+				},
+			},
+		]);
+		const storeA = new LRUCacheStore({ max: 10 });
+		const storeB = new LRUCacheStore({ max: 10 });
+		const serverA = await run(tenantRoutes, { store: storeA, port: 0 });
+		const serverB = await run(tenantRoutes, { store: storeB, port: 0 });
+		try {
+			const fetchTenant = (tenantServer: Server) =>
+				tenantServer.fetch(new Request(`http://localhost:${tenantServer.port}/tenant`));
+
+			expect(await (await fetchTenant(serverA)).text()).toBe("Call 1");
+			expect(await (await fetchTenant(serverB)).text()).toBe("Call 2");
+			expect(await (await fetchTenant(serverA)).text()).toBe("Call 1");
+			expect((await storeA.stats()).entries).toBe(1);
+			expect(
+				await cache?.has(
+					getRequestId(new Request(`http://localhost:${serverA.port}/tenant`)),
+				),
+			).toBe(false);
+		} finally {
+			serverA.stop(true);
+			serverB.stop(true);
+		}
+	});
+
+	test("Server instances do not share their calls in progress", async () => {
+		const tenantCalls = { A: 0, B: 0 };
+		const createTenant = async (tenant: "A" | "B") => {
+			const store = new LRUCacheStore({ max: 10 });
+			const tenantServer = await run(
+				compileRoute([
+					{
+						path: "/x",
+						maxAge: 1,
+						staleWhileRevalidate: 60,
+						handler: async () => {
+							tenantCalls[tenant] += 1;
+							await Bun.sleep(50);
+							return `Tenant ${tenant}`;
+						},
+					},
+				]),
+				{ store, port: 0 },
+			);
+			return { store, tenantServer };
+		};
+		const tenantA = await createTenant("A");
+		const tenantB = await createTenant("B");
+		const url = "http://tenant.example.test/x";
+		try {
+			// Concurrent misses of both instances for the same key
+			const [responseA, responseB] = await Promise.all([
+				tenantA.tenantServer.fetch(new Request(url)),
+				tenantB.tenantServer.fetch(new Request(url)),
+			]);
+			expect(await responseA.text()).toBe("Tenant A");
+			expect(await responseB.text()).toBe("Tenant B");
+			expect(tenantCalls).toEqual({ A: 1, B: 1 });
+
+			// Concurrent revalidations of both instances for the same key
+			const requestId = getRequestId(new Request(url));
+			for (const { store } of [tenantA, tenantB]) {
+				const entry = (await store.get(requestId)) as ResponseCacheableObject;
+				const headers = new Headers(entry.headers);
+				headers.set("x-cache-date", new Date(Date.now() - 10000).toISOString());
+				await store.set(requestId, { ...entry, headers: Array.from(headers.entries()) });
+			}
+			const staleResponses = await Promise.all([
+				tenantA.tenantServer.fetch(new Request(url)),
+				tenantB.tenantServer.fetch(new Request(url)),
+			]);
+			for (const response of staleResponses) {
+				expect(response.headers.get("X-Cache")).toBe("STALE");
+			}
+			await Bun.sleep(100);
+			expect(tenantCalls).toEqual({ A: 2, B: 2 });
+		} finally {
+			tenantA.tenantServer.stop(true);
+			tenantB.tenantServer.stop(true);
+		}
+	});
+
+	test("Server serves the status endpoint only when enabled, behind the global middleware", async () => {
+		if (!server) {
+			throw new Error("Server not initialized");
+		}
+		const statusUrl = new URL("/__status", baseUrl).toString();
+		const unauthorizedResponse = await server.fetch(new Request(statusUrl));
+		expect(unauthorizedResponse.status).toBe(401);
+
+		const defaultServer = await run([], { port: 0 });
+		try {
+			const response = await defaultServer.fetch(
+				new Request(`http://localhost:${defaultServer.port}/__status`),
+			);
+			expect(response.status).toBe(404);
+		} finally {
+			defaultServer.stop(true);
+		}
+	});
+
+	test("Server reports the memory watchdog on the status endpoint", async () => {
+		const store = new LRUCacheStore({
+			maxSize: 10000,
+			sizeCalculation: (value) => value.body.length,
+		});
+		for (let index = 0; index < 10; index++) {
+			await store.set(`entry-${index}`, {
+				body: new Uint8Array(100),
+				status: 200,
+				headers: [],
+			});
+		}
+		const statusCounters = new Counters();
+		const watchdog = new MemoryWatchdog(store, {
+			sample: async () => ({ used: 1950, limit: 2000 }),
+			counters: statusCounters,
+		});
+		await watchdog.check();
+		const statusServer = await run([], {
+			store,
+			port: 0,
+			counters: statusCounters,
+			statusPath: "/__status",
+			status: async () => ({ memory: await watchdog.status() }),
+		});
+		try {
+			const response = await statusServer.fetch(
+				new Request(`http://localhost:${statusServer.port}/__status`),
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: any is needed here
+			const status = (await response.json()) as any;
+			expect(status.memory).toMatchObject({
+				budget: 650,
+				underPressure: true,
+				pressureEvictions: 4,
+			});
+			expect(status.counters[COUNTERS.PRESSURE_EVICTIONS]).toBe(4);
+			expect(status.cache).toEqual({ entries: 6, size: 600, maxSize: 10000 });
+		} finally {
+			statusServer.stop(true);
+		}
+	});
 });
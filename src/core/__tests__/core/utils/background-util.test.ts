@@ -0,0 +1,63 @@
+import { test, expect } from "bun:test";
+import {
+	BackgroundTasks,
+	drainBackgroundTasks,
+	hasBackgroundTask,
+	runInBackground,
+} from "../../../utils/background.util";
+
+test("runInBackground - Does not run the same task twice at once", async () => {
+	let runs = 0;
+	const task = async () => {
+		runs += 1;
+		await Bun.sleep(10);
+	};
+
+	const first = runInBackground("key", task);
+	expect(runInBackground("key", task)).toBeUndefined();
+	expect(hasBackgroundTask("key")).toBe(true);
+
+	await first;
+	expect(hasBackgroundTask("key")).toBe(false);
+	expect(runs).toBe(1);
+});
+
+test("drainBackgroundTasks - Waits for tasks, including tasks started while waiting", async () => {
+	const done: string[] = [];
+	runInBackground("first", async () => {
+		await Bun.sleep(10);
+		done.push("first");
+		runInBackground("second", async () => {
+			await Bun.sleep(10);
+			done.push("second");
+		});
+	});
+
+	expect(await drainBackgroundTasks(1000)).toBe(true);
+	expect(done).toEqual(["first", "second"]);
+});
+
+test("drainBackgroundTasks - Gives up after the timeout", async () => {
+	runInBackground("slow", () => Bun.sleep(200));
+
+	expect(await drainBackgroundTasks(20)).toBe(false);
+	expect(await drainBackgroundTasks(1000)).toBe(true);
+});
+
+test("BackgroundTasks - Instances run their own tasks", async () => {
+	const first = new BackgroundTasks();
+	const second = new BackgroundTasks();
+	let runs = 0;
+	const task = async () => {
+		runs += 1;
+		await Bun.sleep(10);
+	};
+
+	expect(first.run("key", task)).toBeDefined();
+	expect(second.run("key", task)).toBeDefined();
+	expect(hasBackgroundTask("key")).toBe(false);
+	expect(await first.drain(1000)).toBe(true);
+	expect(second.has("key")).toBe(true);
+	expect(await second.drain(1000)).toBe(true);
+	expect(runs).toBe(2);
+});
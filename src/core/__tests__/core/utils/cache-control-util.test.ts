@@ -0,0 +1,163 @@
+import { test, expect } from "bun:test";
+import {
+	getFreshnessWindows,
+	getRequestCacheControl,
+	isCacheableStatus,
+	isStorable,
+	parseCacheControl,
+	satisfiesRequest,
+} from "../../../utils/cache-control.util";
+
+const createEntry = (headers: HeadersEntryType[]): ResponseCacheableObject => ({
+	body: new Uint8Array(Buffer.from("cached")),
+	status: 200,
+	headers: [["x-cache-date", "2024-01-01T00:00:00.000Z"], ...headers],
+});
+
+test("parseCacheControl - Parses directives", () => {
+	expect(
+		parseCacheControl(
+			'Public, max-age=60, S-MAXAGE="120", stale-while-revalidate=30, stale-if-error=600, max-age=1',
+		),
+	).toEqual({
+		noStore: false,
+		noCache: false,
+		private: false,
+		public: true,
+		mustRevalidate: false,
+		maxAge: 60,
+		sMaxage: 120,
+		staleWhileRevalidate: 30,
+		staleIfError: 600,
+		maxStale: undefined,
+		minFresh: undefined,
+		onlyIfCached: false,
+	});
+	const cacheControl = parseCacheControl("no-store, private, max-age=abc");
+	expect(cacheControl.noStore).toBe(true);
+	expect(cacheControl.private).toBe(true);
+	expect(cacheControl.maxAge).toBeUndefined();
+	expect(parseCacheControl(null).noStore).toBe(false);
+});
+
+test("isStorable - Rejects responses that must not be shared", () => {
+	expect(isStorable(createEntry([]))).toBe(true);
+	expect(isStorable(createEntry([["cache-control", "no-store"]]))).toBe(false);
+	expect(isStorable(createEntry([["cache-control", "private, max-age=60"]]))).toBe(false);
+	expect(isStorable(createEntry([["set-cookie", "session=1"]]))).toBe(false);
+	expect(isStorable(createEntry([["vary", "Accept, *"]]))).toBe(false);
+	expect(isStorable(createEntry([["cache-control", "max-age=0"]]))).toBe(false);
+	expect(
+		isStorable(createEntry([["cache-control", "max-age=0, stale-while-revalidate=60"]])),
+	).toBe(true);
+
+	// Route modes
+	expect(isStorable(createEntry([["cache-control", "max-age=0"]]), "override")).toBe(true);
+	expect(isStorable(createEntry([["cache-control", "no-store"]]), "override")).toBe(false);
+	expect(isStorable(createEntry([["cache-control", "no-store"]]), "ignore")).toBe(true);
+});
+
+test("isStorable - Measures Expires from now for responses without a date", () => {
+	const inAMinute = new Date(Date.now() + 60_000).toUTCString();
+	const aMinuteAgo = new Date(Date.now() - 60_000).toUTCString();
+	const createResponse = (expires: string): ResponseCacheableObject => ({
+		body: new Uint8Array(Buffer.from("handler")),
+		status: 200,
+		headers: [["expires", expires]],
+	});
+
+	expect(isStorable(createResponse(inAMinute))).toBe(true);
+	expect(isStorable(createResponse(aMinuteAgo))).toBe(false);
+	expect(getFreshnessWindows(createResponse(inAMinute), {}).maxAge).toBeGreaterThanOrEqual(59);
+});
+
+test("getFreshnessWindows - Prefers the windows declared by the response", () => {
+	const route = { maxAge: 10, staleWhileRevalidate: 20 };
+
+	expect(getFreshnessWindows(createEntry([]), route)).toEqual({
+		maxAge: 10,
+		staleWhileRevalidate: 20,
+		staleIfError: undefined,
+	});
+	expect(
+		getFreshnessWindows(
+			createEntry([["cache-control", "max-age=60, s-maxage=300, stale-if-error=30"]]),
+			route,
+		),
+	).toEqual({ maxAge: 300, staleWhileRevalidate: 20, staleIfError: 30 });
+	expect(
+		getFreshnessWindows(
+			createEntry([["cache-control", "max-age=60, must-revalidate"]]),
+			route,
+		),
+	).toEqual({ maxAge: 60, staleWhileRevalidate: 0, staleIfError: undefined });
+	expect(
+		getFreshnessWindows(
+			createEntry([
+				["date", "Mon, 01 Jan 2024 00:00:00 GMT"],
+				["expires", "Mon, 01 Jan 2024 00:02:00 GMT"],
+			]),
+			{},
+		),
+	).toEqual({ maxAge: 120, staleWhileRevalidate: 0, staleIfError: undefined });
+	expect(
+		getFreshnessWindows(createEntry([["expires", "0"]]), {}).maxAge,
+	).toBe(0);
+
+	// The route's windows win when upstream directives are overridden
+	expect(
+		getFreshnessWindows(createEntry([["cache-control", "max-age=60"]]), {
+			...route,
+			upstreamCacheControl: "override",
+		}).maxAge,
+	).toBe(10);
+});
+
+test("getRequestCacheControl - Parses request directives and Pragma", () => {
+	const requestCacheControl = getRequestCacheControl(
+		new Request("http://example.com/", {
+			headers: { "cache-control": "max-stale, min-fresh=10, only-if-cached" },
+		}),
+	);
+	expect(requestCacheControl.maxStale).toBe(Infinity);
+	expect(requestCacheControl.minFresh).toBe(10);
+	expect(requestCacheControl.onlyIfCached).toBe(true);
+
+	const pragmaRequest = new Request("http://example.com/", {
+		headers: { pragma: "no-cache" },
+	});
+	expect(getRequestCacheControl(pragmaRequest).noCache).toBe(true);
+	const overriddenPragmaRequest = new Request("http://example.com/", {
+		headers: { pragma: "no-cache", "cache-control": "max-age=60" },
+	});
+	expect(getRequestCacheControl(overriddenPragmaRequest).noCache).toBe(false);
+});
+
+test("satisfiesRequest - Applies the client constraints", () => {
+	const windows = { maxAge: 60 };
+
+	expect(satisfiesRequest(30, windows, parseCacheControl(""))).toBe(true);
+	expect(satisfiesRequest(undefined, windows, parseCacheControl(""))).toBe(true);
+	expect(satisfiesRequest(30, windows, parseCacheControl("no-cache"))).toBe(false);
+	expect(satisfiesRequest(30, windows, parseCacheControl("max-age=0"))).toBe(false);
+	expect(satisfiesRequest(30, windows, parseCacheControl("max-age=30"))).toBe(true);
+	expect(satisfiesRequest(30, windows, parseCacheControl("min-fresh=40"))).toBe(false);
+	expect(satisfiesRequest(30, windows, parseCacheControl("min-fresh=20"))).toBe(true);
+	expect(satisfiesRequest(90, windows, parseCacheControl("max-stale=10"))).toBe(false);
+	expect(satisfiesRequest(90, windows, parseCacheControl("max-stale"))).toBe(true);
+	expect(satisfiesRequest(undefined, windows, parseCacheControl("max-stale"))).toBe(false);
+});
+
+test("isCacheableStatus - Combines cacheable and negative statuses", () => {
+	expect([200, 204, 301, 404, 410].every((status) => isCacheableStatus(status, {}))).toBe(true);
+	expect([201, 302, 500].some((status) => isCacheableStatus(status, {}))).toBe(false);
+
+	const route = { cacheableStatuses: [200], negativeCache: { maxAge: 5, statuses: [404, 503] } };
+	expect(isCacheableStatus(200, route)).toBe(true);
+	expect(isCacheableStatus(503, route)).toBe(true);
+	expect(isCacheableStatus(410, route)).toBe(false);
+
+	// Negative entries are fresh for the negative cache TTL only
+	const entry = { ...createEntry([["cache-control", "max-age=600"]]), status: 503 };
+	expect(getFreshnessWindows(entry, route)).toEqual({ maxAge: 5, staleWhileRevalidate: 0 });
+});
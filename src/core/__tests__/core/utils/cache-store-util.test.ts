@@ -0,0 +1,126 @@
+import { test, expect } from "bun:test";
+import { LRUCache } from "lru-cache";
+import { LRUCacheStore, TieredCacheStore } from "../../../utils/cache-store.util";
+import { SqliteCacheStore } from "../../../utils/sqlite-store.util";
+
+const createEntry = (body: string): ResponseCacheableObject => ({
+	body: new TextEncoder().encode(body),
+	status: 200,
+	headers: [["content-type", "text/plain"]],
+});
+
+test("LRUCacheStore - Stores, lists and deletes entries", async () => {
+	const store = new LRUCacheStore({
+		maxSize: 100,
+		sizeCalculation: (value) => value.body.length,
+	});
+	await store.set("a", createEntry("first"));
+	await store.set("b", createEntry("second"));
+
+	expect(await store.has("a")).toBe(true);
+	expect((await store.get("a"))?.status).toBe(200);
+	expect(await store.getEntry("b")).toEqual({ value: createEntry("second"), size: 6 });
+	expect((await store.keys()).sort()).toEqual(["a", "b"]);
+	expect(await store.stats()).toEqual({ entries: 2, size: 11, maxSize: 100 });
+
+	expect(await store.delete("a")).toBe(true);
+	expect(await store.delete("a")).toBe(false);
+	expect(await store.get("a")).toBeUndefined();
+	expect(await store.getEntry("a")).toBeUndefined();
+
+	await store.clear();
+	expect((await store.stats()).entries).toBe(0);
+});
+
+test("LRUCacheStore - Evicts the least recently used entries", async () => {
+	const store = new LRUCacheStore({ max: 2 });
+	await store.set("a", createEntry("a"));
+	await store.set("b", createEntry("b"));
+	await store.get("a");
+	await store.set("c", createEntry("c"));
+
+	expect((await store.keys()).sort()).toEqual(["a", "c"]);
+	expect((await store.stats()).maxSize).toBeUndefined();
+});
+
+test("LRUCacheStore - Wraps an existing LRU cache", async () => {
+	const lru = new LRUCache<string, ResponseCacheableObject>({ max: 10 });
+	lru.set("a", createEntry("a"));
+	const store = new LRUCacheStore(lru);
+
+	expect(store.lru).toBe(lru);
+	expect(await store.has("a")).toBe(true);
+	const restored = new LRUCacheStore({ max: 10 });
+	restored.load(store.dump());
+	expect(await restored.get("a")).toEqual(createEntry("a"));
+});
+
+test("TieredCacheStore - Falls back to the second tier and promotes entries", async () => {
+	const l1 = new LRUCacheStore({ max: 10 });
+	const l2 = new LRUCacheStore({ max: 10 });
+	const store = new TieredCacheStore(l1, l2);
+
+	await store.set("a", createEntry("a"));
+	expect(await l1.has("a")).toBe(true);
+	expect(await l2.has("a")).toBe(true);
+
+	// Evicted from memory, still on the second tier
+	await l1.delete("a");
+	expect(await store.get("a")).toEqual(createEntry("a"));
+	expect(await l1.has("a")).toBe(true);
+
+	await l2.set("b", createEntry("b"));
+	expect((await store.keys()).sort()).toEqual(["a", "b"]);
+	expect(await store.delete("a")).toBe(true);
+	expect(await l1.has("a")).toBe(false);
+	expect(await l2.has("a")).toBe(false);
+	expect((await store.stats()).entries).toBe(1);
+});
+
+test("LRUCacheStore - Evicts the least recently used entries and refuses new entries on demand", async () => {
+	const store = new LRUCacheStore({
+		maxSize: 100,
+		sizeCalculation: (value) => value.body.length,
+	});
+	await store.set("a", createEntry("first"));
+	await store.set("b", createEntry("second"));
+	await store.set("c", createEntry("third"));
+	await store.get("a");
+
+	expect(store.evictTo(10)).toBe(1);
+	expect(await store.keys()).toEqual(["a", "c"]);
+
+	store.refuseWrites = true;
+	await store.set("d", createEntry("fourth"));
+	await store.set("a", createEntry("updated"));
+	expect(await store.has("d")).toBe(false);
+	expect(new TextDecoder().decode((await store.get("a"))?.body)).toBe("updated");
+});
+
+test("TieredCacheStore - Passes the first tier hits on to the second tier", async () => {
+	const l1 = new LRUCacheStore({ max: 10 });
+	const l2 = new SqliteCacheStore({ path: ":memory:" });
+	const store = new TieredCacheStore(l1, l2, { touchInterval: 5 });
+	const touched: string[][] = [];
+	const touch = l2.touch.bind(l2);
+	l2.touch = async (keys) => {
+		touched.push(keys);
+		return touch(keys);
+	};
+
+	await store.set("a", createEntry("a"));
+	await store.set("b", createEntry("b"));
+	await store.get("a");
+	await store.get("a");
+	await store.get("b");
+	expect(touched).toEqual([]);
+
+	// Batched after the interval
+	await Bun.sleep(20);
+	expect(touched).toEqual([["a", "b"]]);
+
+	await store.get("b");
+	await store.flushTouches();
+	expect(touched).toEqual([["a", "b"], ["b"]]);
+	l2.close();
+});
@@ -11,33 +11,29 @@ import {
 	CacheManager,
 } from "../../../utils/cache.util";
 import * as storageUtils from "../../../utils/storage.util";
+import { sizeOfCacheableObject } from "../../../utils/size.util";
 import path from "path";
 import os from "os";
-import { serialize } from "bun:jsc";
 
 spyOn(storageUtils, "serializeToFile");
 spyOn(storageUtils, "deserializeFromFile");
 
-function sizeOf(obj: ResponseCacheableObject): number {
-	const serializedObj = serialize(obj);
-	return serializedObj.byteLength + 50;
-}
-
 const mockCacheData: ResponseCacheableObject = {
 	body: new Uint8Array(Buffer.from("Hello, World")),
 	status: 200,
 	headers: [["content-type", "text/plain"]],
 };
 
+// Mocking file path, kept apart from the snapshot of a running instance
+const cacheFilePath = path.join(os.tmpdir(), "test_cache_manager.bin");
+
 const cacheOptions = {
 	maxSize: 2048,
-	sizeCalculation: sizeOf,
+	sizeCalculation: sizeOfCacheableObject,
 	allowStale: true,
+	snapshotPath: cacheFilePath,
 };
 
-// Mocking file path
-const cacheFilePath = path.join(os.tmpdir(), "cache.bin");
-
 describe("CacheManager Tests", () => {
 	describe("CacheManager with initialization", () => {
 		let cacheManager: CacheManager | undefined;
@@ -70,6 +66,17 @@ describe("CacheManager Tests", () => {
 
 			// Check if serializeToFile was called with the expected data
 			expect(await Bun.file(cacheFilePath).exists()).toBe(true);
+			expect(cacheManager?.getSnapshotPath()).toBe(cacheFilePath);
+		});
+
+		test("CacheManager skips the snapshot when asked to", async () => {
+			CacheManager.resetInstanceForTesting();
+			await initCacheInstance({ ...cacheOptions, loadSnapshot: false });
+			expect(await getCacheInstance().has("newKey")).toBe(false);
+
+			CacheManager.resetInstanceForTesting();
+			cacheManager = await initCacheInstance(cacheOptions);
+			expect(await getCacheInstance().has("newKey")).toBe(true);
 		});
 	});
 });
@@ -0,0 +1,71 @@
+import { test, expect } from "bun:test";
+import { Coalescer, coalesce, isInFlight } from "../../../utils/coalesce.util";
+
+test("coalesce - Shares a single call between concurrent callers", async () => {
+	let calls = 0;
+	const task = async () => {
+		calls += 1;
+		await Bun.sleep(20);
+		return `call ${calls}`;
+	};
+
+	const results = await Promise.all([
+		coalesce("key", task),
+		coalesce("key", task),
+		coalesce("key", task),
+	]);
+	expect(results).toEqual(["call 1", "call 1", "call 1"]);
+	expect(calls).toBe(1);
+	expect(isInFlight("key")).toBe(false);
+
+	// A later call is not coalesced with a finished one
+	expect(await coalesce("key", task)).toBe("call 2");
+});
+
+test("coalesce - Shares errors with the waiters", async () => {
+	const task = async () => {
+		await Bun.sleep(10);
+		throw new Error("Upstream down");
+	};
+
+	const results = await Promise.allSettled([
+		coalesce("failing", task),
+		coalesce("failing", task),
+	]);
+	expect(results.map((result) => result.status)).toEqual(["rejected", "rejected"]);
+	expect(isInFlight("failing")).toBe(false);
+});
+
+test("coalesce - Waiters fall back to their own call after the timeout", async () => {
+	let calls = 0;
+	const slowTask = async () => {
+		calls += 1;
+		await Bun.sleep(100);
+		return "slow";
+	};
+
+	const leader = coalesce("slow", slowTask, 10);
+	const waiter = coalesce("slow", async () => "own call", 10);
+	expect(await waiter).toBe("own call");
+	expect(await leader).toBe("slow");
+	expect(calls).toBe(1);
+
+	// A timeout of 0 disables coalescing
+	await Promise.all([coalesce("off", slowTask, 0), coalesce("off", slowTask, 0)]);
+	expect(calls).toBe(3);
+});
+
+test("Coalescer - Instances do not share their calls", async () => {
+	const first = new Coalescer();
+	const second = new Coalescer();
+	const results = await Promise.all([
+		first.coalesce("key", async () => {
+			await Bun.sleep(20);
+			return "first";
+		}),
+		second.coalesce("key", async () => "second"),
+	]);
+	expect(results).toEqual(["first", "second"]);
+	expect(first.isInFlight("key")).toBe(false);
+	expect(isInFlight("key")).toBe(false);
+});
@@ -0,0 +1,116 @@
+import { test, expect } from "bun:test";
+import {
+	UPSTREAM_ETAG_HEADER,
+	UPSTREAM_LAST_MODIFIED_HEADER,
+	createUpstreamRequest,
+	generateETag,
+	isNotModified,
+	refreshCacheableObject,
+} from "../../../utils/conditional.util";
+
+const lastModified = "Wed, 21 Oct 2026 07:28:00 GMT";
+const etag = generateETag("Content");
+const responseHeaders = new Headers({ ETag: etag, "Last-Modified": lastModified }) as Headers;
+
+const conditionalRequest = (headers: Record<string, string>, method = "GET") =>
+	new Request("http://example.com", { method, headers });
+
+test("generateETag - Strong tag of the content", () => {
+	expect(etag).toMatch(/^"[0-9a-f]+"$/);
+	expect(generateETag("Content")).toBe(etag);
+	expect(generateETag("Other content")).not.toBe(etag);
+});
+
+test("isNotModified - Compares If-None-Match to the ETag", () => {
+	expect(isNotModified(conditionalRequest({ "If-None-Match": etag }), responseHeaders)).toBe(true);
+	expect(
+		isNotModified(conditionalRequest({ "If-None-Match": `"a", W/${etag}` }), responseHeaders),
+	).toBe(true);
+	expect(isNotModified(conditionalRequest({ "If-None-Match": "*" }), responseHeaders)).toBe(true);
+	expect(isNotModified(conditionalRequest({ "If-None-Match": '"a"' }), responseHeaders)).toBe(
+		false,
+	);
+	// If-None-Match takes precedence over If-Modified-Since
+	expect(
+		isNotModified(
+			conditionalRequest({ "If-None-Match": '"a"', "If-Modified-Since": lastModified }),
+			responseHeaders,
+		),
+	).toBe(false);
+	expect(
+		isNotModified(conditionalRequest({ "If-None-Match": etag }, "POST"), responseHeaders),
+	).toBe(false);
+});
+
+test("isNotModified - Compares If-Modified-Since to Last-Modified", () => {
+	expect(
+		isNotModified(conditionalRequest({ "If-Modified-Since": lastModified }), responseHeaders),
+	).toBe(true);
+	expect(
+		isNotModified(
+			conditionalRequest({ "If-Modified-Since": "Tue, 20 Oct 2026 07:28:00 GMT" }),
+			responseHeaders,
+		),
+	).toBe(false);
+	expect(
+		isNotModified(conditionalRequest({ "If-Modified-Since": "not a date" }), responseHeaders),
+	).toBe(false);
+	expect(isNotModified(conditionalRequest({}), responseHeaders)).toBe(false);
+});
+
+test("createUpstreamRequest - Replaces the client validators with the entry's", () => {
+	const request = conditionalRequest({ "If-None-Match": etag, Accept: "text/plain" });
+	const missRequest = createUpstreamRequest(request);
+	expect(missRequest.headers.has("if-none-match")).toBe(false);
+	expect(missRequest.headers.get("accept")).toBe("text/plain");
+
+	const entry: ResponseCacheableObject = {
+		body: new Uint8Array(),
+		status: 200,
+		headers: [
+			[UPSTREAM_ETAG_HEADER, '"upstream"'],
+			[UPSTREAM_LAST_MODIFIED_HEADER, lastModified],
+		],
+	};
+	const revalidationRequest = createUpstreamRequest(request, entry);
+	expect(revalidationRequest.headers.get("if-none-match")).toBe('"upstream"');
+	expect(revalidationRequest.headers.get("if-modified-since")).toBe(lastModified);
+
+	const plainRequest = conditionalRequest({});
+	expect(createUpstreamRequest(plainRequest)).toBe(plainRequest);
+});
+
+test("createUpstreamRequest - Sends HEAD requests as GET", () => {
+	const headRequest = conditionalRequest({ Accept: "text/plain" }, "HEAD");
+	const upstreamRequest = createUpstreamRequest(headRequest);
+	expect(upstreamRequest.method).toBe("GET");
+	expect(upstreamRequest.headers.get("accept")).toBe("text/plain");
+});
+
+test("refreshCacheableObject - Renews the headers but not the content", () => {
+	const body = new Uint8Array([1, 2, 3]);
+	const entry: ResponseCacheableObject = {
+		body,
+		status: 200,
+		headers: [
+			["etag", etag],
+			["content-encoding", "br"],
+			["cache-control", "max-age=60"],
+			[UPSTREAM_ETAG_HEADER, '"v1"'],
+		],
+	};
+	const refreshed = refreshCacheableObject(
+		entry,
+		new Headers({
+			ETag: '"v2"',
+			"Cache-Control": "max-age=120",
+			"Content-Encoding": "identity",
+		}) as Headers,
+	);
+	const headers = new Headers(refreshed.headers);
+	expect(refreshed.body).toBe(body);
+	expect(headers.get("etag")).toBe(etag);
+	expect(headers.get(UPSTREAM_ETAG_HEADER)).toBe('"v2"');
+	expect(headers.get("cache-control")).toBe("max-age=120");
+	expect(headers.get("content-encoding")).toBe("br");
+});
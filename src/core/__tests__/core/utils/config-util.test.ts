@@ -0,0 +1,134 @@
+import { test, expect } from "bun:test";
+import path from "path";
+import os from "os";
+import { unlinkSync } from "node:fs";
+import {
+	getCacheStoreKind,
+	getConfigRoutes,
+	loadConfig,
+	validateConfig,
+} from "../../../utils/config.util";
+import { ConfigError } from "../../../utils/error.util";
+
+const validConfig = {
+	server: { hostname: "0.0.0.0", port: 8080, statusPath: "/__status" },
+	cache: { memoryPercentage: 0.5, minSize: 1024, maxSize: 1073741824 },
+	cors: { allowOrigin: "https://app.example.test" },
+	routes: [
+		{
+			path: "/coffee",
+			upstream: "https://coffee.alexflipnote.dev/random.json",
+			cache: true,
+			maxAge: 60,
+			staleWhileRevalidate: 300,
+			headers: { "x-api-key": "secret" },
+		},
+		{
+			path: "/users/:id",
+			upstream: "https://api.example.test/users/:id",
+			method: ["GET", "DELETE"],
+			hostname: "api.example.test",
+			vary: { headers: ["Accept-Language"], cookies: ["tenant"] },
+			normalize: { stripTracking: true, ignoreQuery: ["ref"] },
+		},
+	],
+};
+
+test("validateConfig - Accepts a valid configuration", () => {
+	expect(validateConfig(validConfig)).toEqual(validConfig);
+	expect(validateConfig({})).toEqual({});
+});
+
+test("validateConfig - Points to the offending key", () => {
+	const invalidConfigs: [unknown, string][] = [
+		[{ server: { port: "80" } }, "server.port"],
+		[{ server: { port: 70000 } }, "server.port"],
+		[{ server: { statusPath: "__status" } }, "server.statusPath"],
+		[{ cache: { memoryPercentage: 7 } }, "cache.memoryPercentage"],
+		[{ cache: { memoryPercentage: 0 } }, "cache.memoryPercentage"],
+		[{ cache: { snapshotInterval: -1 } }, "cache.snapshotInterval"],
+		[{ cache: { store: "redis" } }, "cache.store"],
+		[{ cache: { sqliteMaxSize: 0 } }, "cache.sqliteMaxSize"],
+		[{ cache: { minSize: 1.5 } }, "cache.minSize"],
+		[{ cache: { minSize: 2048, maxSize: 1024 } }, "cache.maxSize"],
+		[{ cache: { highWaterMark: 1.5 } }, "cache.highWaterMark"],
+		[{ cache: { highWaterMark: 0.7, lowWaterMark: 0.8 } }, "cache.lowWaterMark"],
+		[{ cache: { watchdogInterval: -1 } }, "cache.watchdogInterval"],
+		[{ cors: { enabled: "yes" } }, "cors.enabled"],
+		[{ routes: {} }, "routes"],
+		[{ routes: [{ path: "/a", upstream: "not a url" }] }, "routes[0].upstream"],
+		[{ routes: [validConfig.routes[0], { upstream: "https://a.test" }] }, "routes[1].path"],
+		[{ routes: [{ path: "/a", upstream: "https://a.test", headers: { x: 1 } }] }, "routes[0].headers.x"],
+		[{ routes: [{ path: "/a", upstream: "https://a.test", cahce: true }] }, "routes[0].cahce"],
+		[{ routes: [{ path: "/a", upstream: "https://a.test", maxAge: -1 }] }, "routes[0].maxAge"],
+		[{ routes: [{ path: "/a", upstream: "https://a.test", upstreamCacheControl: "obey" }] }, "routes[0].upstreamCacheControl"],
+		[{ routes: [{ path: "/a", upstream: "https://a.test", clientCacheControl: "no" }] }, "routes[0].clientCacheControl"],
+		[{ routes: [{ path: "/a", upstream: "https://a.test", cacheableStatuses: [200, 99] }] }, "routes[0].cacheableStatuses[1]"],
+		[{ routes: [{ path: "/a", upstream: "https://a.test", negativeCache: { statuses: [404] } }] }, "routes[0].negativeCache.maxAge"],
+		[{ routes: [{ path: "/a", upstream: "https://a.test", vary: { headers: "accept" } }] }, "routes[0].vary.headers"],
+		[{ routes: [{ path: "/a", upstream: "https://a.test", vary: { params: ["id"] } }] }, "routes[0].vary.params"],
+		[{ routes: [{ path: "/a", upstream: "https://a.test", normalize: { lowercase: 1 } }] }, "routes[0].normalize.lowercase"],
+		[{ routes: [{ path: "/a", upstream: "https://a.test", normalize: { ignoreQuery: [""] } }] }, "routes[0].normalize.ignoreQuery[0]"],
+		[{ listen: 80 }, "listen"],
+	];
+
+	for (const [config, key] of invalidConfigs) {
+		try {
+			validateConfig(config);
+			throw new Error(`Expected ${key} to be rejected`);
+		} catch (ex) {
+			expect(ex).toBeInstanceOf(ConfigError);
+			expect((ex as ConfigError).key).toBe(key);
+			expect((ex as ConfigError).message).toContain(`"${key}"`);
+		}
+	}
+});
+
+test("validateConfig - Rejects a memory share of 0", () => {
+	expect(() => validateConfig({ cache: { memoryPercentage: 0 } })).toThrow(
+		'Invalid configuration at "cache.memoryPercentage": expected a number > 0 and <= 1, received 0',
+	);
+	expect(validateConfig({ cache: { memoryPercentage: 0.01 } })).toEqual({
+		cache: { memoryPercentage: 0.01 },
+	});
+});
+
+test("loadConfig - Loads and validates a JSON configuration file", async () => {
+	const configFile = path.join(os.tmpdir(), `bunblaze.config.${Date.now()}.json`);
+	await Bun.write(configFile, JSON.stringify(validConfig));
+
+	expect(await loadConfig(configFile)).toEqual(validConfig);
+
+	await Bun.write(configFile, "{ invalid json");
+	await expect(loadConfig(configFile)).rejects.toThrow("Invalid configuration");
+	unlinkSync(configFile);
+});
+
+test("loadConfig - Returns undefined without a configuration file", async () => {
+	const cwd = process.cwd();
+	process.chdir(os.tmpdir());
+	try {
+		expect(await loadConfig()).toBeUndefined();
+	} finally {
+		process.chdir(cwd);
+	}
+});
+
+test("getConfigRoutes - Converts configured routes to proxy routes", () => {
+	const routes = getConfigRoutes(validConfig);
+
+	expect(routes.length).toBe(2);
+	expect(routes[0].path).toBe("/coffee");
+	expect(routes[1].method).toEqual(["GET", "DELETE"]);
+	expect(routes[1].hostname).toBe("api.example.test");
+	expect(getConfigRoutes(undefined)).toEqual([]);
+});
+
+test("getCacheStoreKind - Prefers CACHE_STORE and rejects unknown stores", () => {
+	expect(getCacheStoreKind(undefined, undefined)).toBe("memory");
+	expect(getCacheStoreKind({ cache: { store: "tiered" } }, undefined)).toBe("tiered");
+	expect(getCacheStoreKind({ cache: { store: "tiered" } }, "sqlite")).toBe("sqlite");
+	expect(() => getCacheStoreKind({ cache: { store: "tiered" } }, "redis")).toThrow(
+		'Invalid configuration at "CACHE_STORE": expected one of: memory, sqlite, tiered, received "redis"',
+	);
+});
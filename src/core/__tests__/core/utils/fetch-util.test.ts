@@ -58,7 +58,7 @@ test("fetchStale - Revalidates and updates cache", async () => {
 
   // Set up initial cached data
   const initialCachedData = await convertToCacheableObject(cachedResponse, [ENCODINGS.IDENTITY]);
-  getCacheInstance().set(cacheKey, initialCachedData);
+  await getCacheInstance().set(cacheKey, initialCachedData);
 
   // Mock fetch for revalidation with new data
   const newResponseData = { file: 'new.jpg' };
@@ -82,7 +82,7 @@ test("fetchStale - Revalidates and updates cache", async () => {
   expect(responseData2).toEqual(newResponseData);
 
   // Verify cache update after revalidation
-  const updatedCacheData = getCacheInstance().get(cacheKey);
+  const updatedCacheData = await getCacheInstance().get(cacheKey);
   const cacheContent = await decompressResponse(new Response(updatedCacheData?.body, {
     status: updatedCacheData?.status,
     headers: updatedCacheData?.headers,
@@ -0,0 +1,61 @@
+import { test, expect } from "bun:test";
+import {
+	FRESHNESS,
+	getCacheAge,
+	getFreshness,
+	isUsableOnError,
+} from "../../../utils/freshness.util";
+
+const now = Date.parse("2024-01-01T00:01:00.000Z");
+
+const createEntry = (cacheDate?: string): ResponseCacheableObject => ({
+	body: new Uint8Array(Buffer.from("cached")),
+	status: 200,
+	headers: cacheDate ? [["x-cache-date", cacheDate]] : [],
+});
+
+test("getCacheAge - Computes the age from the cache date", () => {
+	expect(getCacheAge(createEntry("2024-01-01T00:00:00.000Z"), now)).toBe(60);
+	expect(getCacheAge(createEntry("2024-01-01T00:00:59.500Z"), now)).toBe(0);
+	expect(getCacheAge(createEntry(), now)).toBeUndefined();
+	expect(getCacheAge(createEntry("not a date"), now)).toBeUndefined();
+});
+
+test("getFreshness - Applies the maxAge and staleWhileRevalidate windows", () => {
+	const entry = createEntry("2024-01-01T00:00:00.000Z");
+
+	expect(getFreshness(entry, { maxAge: 120 }, now)).toBe(FRESHNESS.FRESH);
+	expect(getFreshness(entry, { maxAge: 60 }, now)).toBe(FRESHNESS.STALE);
+	expect(
+		getFreshness(entry, { maxAge: 30, staleWhileRevalidate: 60 }, now),
+	).toBe(FRESHNESS.STALE);
+	expect(
+		getFreshness(entry, { maxAge: 30, staleWhileRevalidate: 30 }, now),
+	).toBe(FRESHNESS.EXPIRED);
+});
+
+test("getFreshness - Revalidates on every hit without maxAge", () => {
+	expect(getFreshness(createEntry("2024-01-01T00:01:00.000Z"), {}, now)).toBe(
+		FRESHNESS.STALE,
+	);
+	expect(
+		getFreshness(
+			createEntry("2024-01-01T00:00:00.000Z"),
+			{ staleWhileRevalidate: 10 },
+			now,
+		),
+	).toBe(FRESHNESS.EXPIRED);
+	// Unknown age
+	expect(getFreshness(createEntry(), { maxAge: 60 }, now)).toBe(FRESHNESS.STALE);
+});
+
+test("isUsableOnError - Extends the use of an entry by staleIfError", () => {
+	const entry = createEntry("2024-01-01T00:00:00.000Z");
+
+	expect(isUsableOnError(entry, { maxAge: 30, staleWhileRevalidate: 60 }, now)).toBe(false);
+	expect(isUsableOnError(entry, { maxAge: 30, staleIfError: 60 }, now)).toBe(true);
+	expect(
+		isUsableOnError(entry, { maxAge: 30, staleWhileRevalidate: 0, staleIfError: 20 }, now),
+	).toBe(false);
+	expect(isUsableOnError(createEntry(), { staleIfError: 60 }, now)).toBe(true);
+});
@@ -9,6 +9,8 @@ import {
 	convertToCacheableObject,
 	decompressResponse,
 	getRequestId,
+	getUrlId,
+	normalizeUrl,
 } from "../../../utils/http.util";
 import { hash } from "../../../utils/hash.util";
 import {
@@ -22,11 +24,116 @@ import {
 test("getRequestId - sort query parameters", () => {
 	const request = new Request("http://example.com?a=1&c=3&b=2");
 	const requestId = getRequestId(request);
-	const sortedUrl = "/?a=1&b=2&c=3";
+	const sortedUrl = "example.com/?a=1&b=2&c=3";
 	const expectedHash = hash(sortedUrl);
 	expect(requestId).toBe(`req:u:${expectedHash}`);
 });
 
+test("getRequestId - key on the route's vary components", () => {
+	const vary = { headers: ["Accept-Language"], cookies: ["tenant"], query: ["page"] };
+	const getId = (url: string, headers: Record<string, string>) =>
+		getRequestId(new Request(url, { headers }), vary);
+
+	const requestId = getId("http://example.com/list?page=2&utm_source=mail", {
+		"accept-language": "fr",
+		cookie: "session=abc; tenant=acme",
+	});
+	expect(requestId).toBe(
+		getId("http://example.com/list?page=2", {
+			"Accept-Language": "fr",
+			cookie: "tenant=acme; other=1",
+		}),
+	);
+	expect(requestId).not.toBe(
+		getId("http://example.com/list?page=2", {
+			"accept-language": "en",
+			cookie: "tenant=acme",
+		}),
+	);
+	expect(requestId).not.toBe(
+		getId("http://example.com/list?page=2", {
+			"accept-language": "fr",
+			cookie: "tenant=globex",
+		}),
+	);
+});
+
+test("getUrlId - stable keys from request components", () => {
+	const url = "http://example.com/path?b=2&a=1";
+	expect(getUrlId(url, "", {})).toBe(getUrlId(url));
+	expect(
+		getUrlId(url, "", {
+			headers: [
+				["accept", "text/html"],
+				["accept-language", "fr"],
+			],
+		}),
+	).toBe(
+		getUrlId(url, "", {
+			headers: [
+				["accept-language", "fr"],
+				["accept", "text/html"],
+			],
+		}),
+	);
+	expect(getUrlId(url, "", { query: ["a"] })).toBe(
+		getUrlId("http://example.com/path?a=1"),
+	);
+	expect(getUrlId(url, "", { headers: [["x-tenant", "a"]] })).not.toBe(
+		getUrlId(url, "", { cookies: [["x-tenant", "a"]] }),
+	);
+	expect(getUrlId(url)).not.toBe(getUrlId("http://cdn.example.com/path?b=2&a=1"));
+});
+
+test("normalizeUrl - apply the normalization rules", () => {
+	const url = "http://example.com/Coffee//?utm_source=mail&b=2&gclid=1&a=&c=3";
+	expect(normalizeUrl(url).toString()).toBe(
+		"http://example.com/Coffee//?a=&b=2&c=3&gclid=1&utm_source=mail",
+	);
+	expect(
+		normalizeUrl(url, {
+			stripTracking: true,
+			trailingSlash: true,
+			lowercase: true,
+			dropEmpty: true,
+			ignoreQuery: ["c"],
+		}).toString(),
+	).toBe("http://example.com/coffee?b=2");
+	expect(normalizeUrl(url, { allowQuery: ["a", "c"] }).toString()).toBe(
+		"http://example.com/Coffee//?a=&c=3",
+	);
+	expect(normalizeUrl("http://example.com/", { trailingSlash: true }).pathname).toBe("/");
+});
+
+test("getRequestId - key the same request again with other vary components", () => {
+	const vary = { headers: ["accept-language"] };
+	const fr = new Request("http://example.com/list", { headers: { "accept-language": "fr" } });
+	const en = new Request("http://example.com/list", { headers: { "accept-language": "en" } });
+
+	// Keyed once without vary, e.g. by a middleware before the route is resolved
+	expect(getRequestId(fr)).toBe(getRequestId(en));
+	expect(getRequestId(fr, vary)).not.toBe(getRequestId(fr));
+	expect(getRequestId(fr, vary)).not.toBe(getRequestId(en, vary));
+});
+
+test("getRequestId - normalize the URL before keying it", () => {
+	const normalize = { stripTracking: true, trailingSlash: true, lowercase: true };
+	expect(
+		getRequestId(new Request("http://example.com/Coffee/?utm_source=x"), undefined, normalize),
+	).toBe(getRequestId(new Request("http://example.com/coffee"), undefined, normalize));
+	expect(getRequestId(new Request("http://example.com/Coffee/?utm_source=x"))).not.toBe(
+		getRequestId(new Request("http://example.com/coffee")),
+	);
+
+	// A request keyed before its route is resolved is normalized once the rules are known
+	const request = new Request("http://example.com/Coffee/?utm_source=y");
+	const rawId = getRequestId(request);
+	expect(getRequestId(request, undefined, normalize)).not.toBe(rawId);
+	expect(getRequestId(request, undefined, normalize)).toBe(
+		getRequestId(new Request("http://example.com/coffee"), undefined, normalize),
+	);
+});
+
 test("compressData - Brotli encoding", async () => {
 	const data = "Test string";
 	const compressed = await compressData(data, ENCODINGS.BROTLI);
@@ -241,6 +348,40 @@ test("convertToCacheableObject - Convert JSON data", async () => {
 	expect(JSON.parse(decompressedBody)).toEqual(jsonData);
 });
 
+test("convertToCacheableObject - ETag of the uncompressed content", async () => {
+	const gzipObject = await convertToCacheableObject(
+		new Response("Same content", { headers: { ETag: '"upstream"' } }),
+		[ENCODINGS.GZIP],
+	);
+	const identityObject = await convertToCacheableObject("Same content", [
+		ENCODINGS.IDENTITY,
+	]);
+	const etag = new Headers(gzipObject.headers).get("etag");
+	expect(etag).toBe(`"${hash("Same content")}"`);
+	expect(new Headers(identityObject.headers).get("etag")).toBe(etag);
+});
+
+test("convertToCacheableObject - Keeps the ETag of 304 and pass-through responses", async () => {
+	const notModified = await convertToCacheableObject(
+		new Response(null, { status: 304, headers: { ETag: '"upstream"' } }),
+		[ENCODINGS.GZIP],
+	);
+	expect(notModified.status).toBe(304);
+	expect(notModified.body.length).toBe(0);
+	expect(notModified.headers).toEqual([["etag", '"upstream"']]);
+
+	const passThrough = await convertToCacheableObject(
+		new Response("Content", { headers: { ETag: '"upstream"' } }),
+		[ENCODINGS.IDENTITY],
+		{ keepETag: true },
+	);
+	expect(new Headers(passThrough.headers).get("etag")).toBe('"upstream"');
+	const generated = await convertToCacheableObject("Content", [ENCODINGS.IDENTITY], {
+		keepETag: true,
+	});
+	expect(new Headers(generated.headers).get("etag")).toBe(`"${hash("Content")}"`);
+});
+
 test("cacheResponseObject - Cache and update response object", async () => {
 	const responseObj = {
 		body: new Uint8Array([1, 2, 3]),
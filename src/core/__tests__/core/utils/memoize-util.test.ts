@@ -17,6 +17,9 @@ test("requestMemoize returns correct results and caches them", () => {
 
 	expect(memoized(request2, "test")).toBe("test");
 	expect(mockFunction).toHaveBeenCalledTimes(2); // Function should be called again for a different request
+
+	expect(memoized(request1, "other")).toBe("other");
+	expect(mockFunction).toHaveBeenCalledTimes(3); // Function should be called again for different arguments
 });
 
 test("memoizeByRef returns correct results and caches them", () => {
@@ -1,5 +1,14 @@
-import { getFreeMemoryInBytes } from "../../../utils/memory.util.ts";
+import {
+	describeCacheBudget,
+	formatBytes,
+	getAvailableMemory,
+	getCgroupMemory,
+	getFreeMemoryInBytes,
+	resolveCacheBudget,
+} from "../../../utils/memory.util.ts";
 import os from "os";
+import path from "path";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
 import { test, expect, mock, beforeEach, afterEach } from "bun:test";
 
 // Backup the original functions
@@ -61,4 +70,98 @@ test("getFreeMemoryInBytes - Unsupported platform", async () => {
     mockPlatform('unsupported' as NodeJS.Platform);
 
     await expect(getFreeMemoryInBytes()).rejects.toThrow("Unsupported platform");
-});
\ No newline at end of file
+});
+
+async function createCgroupRoot(files: Record<string, string>): Promise<string> {
+	const root = await mkdtemp(path.join(os.tmpdir(), "cgroup-"));
+	for (const [file, content] of Object.entries(files)) {
+		await mkdir(path.dirname(path.join(root, file)), { recursive: true });
+		await writeFile(path.join(root, file), content);
+	}
+	return root;
+}
+
+test("getCgroupMemory - Reads the cgroup v2 limit and usage", async () => {
+	const root = await createCgroupRoot({ "memory.max": "536870912\n", "memory.current": "104857600\n" });
+	expect(await getCgroupMemory(root)).toEqual({ version: 2, limit: 536870912, usage: 104857600 });
+	await rm(root, { recursive: true });
+});
+
+test("getCgroupMemory - Reads the cgroup v1 limit and usage", async () => {
+	const root = await createCgroupRoot({
+		"memory/memory.limit_in_bytes": "268435456\n",
+		"memory/memory.usage_in_bytes": "67108864\n",
+	});
+	expect(await getCgroupMemory(root)).toEqual({ version: 1, limit: 268435456, usage: 67108864 });
+	await rm(root, { recursive: true });
+});
+
+test("getCgroupMemory - Leaves the reclaimable page cache out of the usage", async () => {
+	const v2Root = await createCgroupRoot({
+		"memory.max": "536870912\n",
+		"memory.current": "104857600\n",
+		"memory.stat": "anon 52428800\nfile 52428800\nactive_file 10485760\ninactive_file 41943040\n",
+	});
+	const v1Root = await createCgroupRoot({
+		"memory/memory.limit_in_bytes": "268435456\n",
+		"memory/memory.usage_in_bytes": "67108864\n",
+		"memory/memory.stat": "cache 33554432\ninactive_file 8388608\ntotal_inactive_file 16777216\n",
+	});
+
+	expect(await getCgroupMemory(v2Root)).toEqual({ version: 2, limit: 536870912, usage: 62914560 });
+	expect(await getCgroupMemory(v1Root)).toEqual({ version: 1, limit: 268435456, usage: 50331648 });
+	await Promise.all([v2Root, v1Root].map((root) => rm(root, { recursive: true })));
+});
+
+test("getCgroupMemory - Treats unlimited cgroups as no limit", async () => {
+	const v2Root = await createCgroupRoot({ "memory.max": "max\n", "memory.current": "1024\n" });
+	const v1Root = await createCgroupRoot({ "memory/memory.limit_in_bytes": "9223372036854771712\n" });
+	const emptyRoot = await createCgroupRoot({});
+	expect(await getCgroupMemory(v2Root)).toBeUndefined();
+	expect(await getCgroupMemory(v1Root)).toBeUndefined();
+	expect(await getCgroupMemory(emptyRoot)).toBeUndefined();
+	await Promise.all([v2Root, v1Root, emptyRoot].map((root) => rm(root, { recursive: true })));
+});
+
+test("getAvailableMemory - Bounds the host free memory by the cgroup limit", async () => {
+	mockPlatform("linux");
+	mockSpawn("              total        used        free\nMem:     8000000000    1000000000    4000000000\n");
+	const limited = await createCgroupRoot({ "memory.max": "1000000000\n", "memory.current": "200000000\n" });
+	const loose = await createCgroupRoot({ "memory.max": "16000000000\n", "memory.current": "0\n" });
+	const unlimited = await createCgroupRoot({});
+
+	expect(await getAvailableMemory(limited)).toEqual({
+		bytes: 800000000,
+		source: "cgroup v2",
+		limit: 1000000000,
+	});
+	expect(await getAvailableMemory(loose)).toEqual({ bytes: 4000000000, source: "host" });
+	expect(await getAvailableMemory(unlimited)).toEqual({ bytes: 4000000000, source: "host" });
+	await Promise.all([limited, loose, unlimited].map((root) => rm(root, { recursive: true })));
+});
+
+test("resolveCacheBudget - Sizes and clamps the budget", () => {
+	const available: AvailableMemory = { bytes: 1000, source: "cgroup v2", limit: 2000 };
+
+	expect(resolveCacheBudget(available)).toEqual({ bytes: 700, source: "cgroup v2", percentage: 0.7 });
+	expect(resolveCacheBudget(available, { percentage: 0.5 }).bytes).toBe(500);
+	expect(resolveCacheBudget(available, { size: 5000, percentage: 0.5 })).toEqual({
+		bytes: 5000,
+		source: "size",
+	});
+	expect(resolveCacheBudget(available, { maxSize: 600 })).toMatchObject({ bytes: 600, clamped: "max" });
+	expect(resolveCacheBudget(available, { minSize: 900 })).toMatchObject({ bytes: 900, clamped: "min" });
+	expect(resolveCacheBudget({ bytes: 0, source: "host" }).bytes).toBe(1);
+});
+
+test("describeCacheBudget - Reports the budget and its source", () => {
+	const available: AvailableMemory = { bytes: 512 * 1024 * 1024, source: "cgroup v2", limit: 1024 ** 3 };
+
+	expect(describeCacheBudget(resolveCacheBudget(available, { percentage: 0.5 }), available)).toBe(
+		"256.0 MB (50% of 512.0 MB available, cgroup v2 limit 1.0 GB)",
+	);
+	expect(describeCacheBudget(resolveCacheBudget(available, { size: 2048, minSize: 4096 }), available)).toBe(
+		"4.0 KB (configured size, clamped to the minimum size)",
+	);
+	expect(formatBytes(512)).toBe("512 B");
+});
@@ -0,0 +1,104 @@
+import { test, expect } from "bun:test";
+import {
+	composeMiddleware,
+	createStatusMiddleware,
+} from "../../../utils/middleware.util";
+
+const createContext = (url = "http://example.com/"): MiddlewareContext => ({
+	request: new Request(url),
+	state: {},
+});
+
+test("composeMiddleware - Runs middleware in order around the handler", async () => {
+	const calls: string[] = [];
+	const chain = composeMiddleware(
+		[
+			async (ctx, next) => {
+				calls.push("outer:before");
+				const response = await next();
+				calls.push("outer:after");
+				return response;
+			},
+			async (ctx, next) => {
+				calls.push("inner:before");
+				const response = await next();
+				calls.push("inner:after");
+				return response;
+			},
+		],
+		async () => {
+			calls.push("handler");
+			return new Response("ok");
+		},
+	);
+
+	await chain(createContext());
+	expect(calls).toEqual([
+		"outer:before",
+		"inner:before",
+		"handler",
+		"inner:after",
+		"outer:after",
+	]);
+});
+
+test("composeMiddleware - Middleware can short-circuit the chain", async () => {
+	let handlerCalled = false;
+	const chain = composeMiddleware(
+		[() => new Response("blocked", { status: 403 })],
+		async () => {
+			handlerCalled = true;
+			return new Response("ok");
+		},
+	);
+
+	const response = await chain(createContext());
+	expect(response.status).toBe(403);
+	expect(handlerCalled).toBe(false);
+});
+
+test("composeMiddleware - Middleware can replace the request and modify the response", async () => {
+	const chain = composeMiddleware(
+		[
+			async (ctx, next) => {
+				ctx.request = new Request(ctx.request, {
+					headers: { "x-tenant": "acme" },
+				});
+				const response = await next();
+				response.headers.set("x-handled-by", "middleware");
+				return response;
+			},
+		],
+		async (ctx) => new Response(ctx.request.headers.get("x-tenant")),
+	);
+
+	const response = await chain(createContext());
+	expect(await response.text()).toBe("acme");
+	expect(response.headers.get("x-handled-by")).toBe("middleware");
+});
+
+test("composeMiddleware - Rejects when next() is called twice", async () => {
+	const chain = composeMiddleware(
+		[
+			async (ctx, next) => {
+				await next();
+				return next();
+			},
+		],
+		async () => new Response("ok"),
+	);
+
+	expect(chain(createContext())).rejects.toThrow("next() called multiple times");
+});
+
+test("createStatusMiddleware - Answers the status path only", async () => {
+	const chain = composeMiddleware(
+		[createStatusMiddleware("/__status", async () => ({ counters: { hits: 2 } }))],
+		async () => new Response("route"),
+	);
+
+	const statusResponse = await chain(createContext("http://example.com/__status"));
+	expect(await statusResponse.json()).toEqual({ counters: { hits: 2 } });
+	const routeResponse = await chain(createContext("http://example.com/api/__status"));
+	expect(await routeResponse.text()).toBe("route");
+});
@@ -0,0 +1,78 @@
+import { test, expect } from "bun:test";
+import { LRUCacheStore } from "../../../utils/cache-store.util";
+import { compileRoute, findMatchedRoute } from "../../../utils/router.util";
+import { proxyRoute } from "../../../utils/proxy.util";
+import {
+	ROUTE_TAG_HEADER,
+	getRouteTag,
+	reloadRoutes,
+	tagCacheableObject,
+} from "../../../utils/reload.util";
+
+const createEntry = (route: CompiledRoute): ResponseCacheableObject =>
+	tagCacheableObject(
+		{
+			body: new Uint8Array(Buffer.from("cached")),
+			status: 200,
+			headers: [["content-type", "text/plain"]],
+		},
+		route,
+	);
+
+test("tagCacheableObject - Tags entries with their route", () => {
+	const [route] = compileRoute([{ path: "/users/:id", handler: () => "user" }]);
+	const entry = createEntry(route);
+
+	expect(new Headers(entry.headers).get(ROUTE_TAG_HEADER)).toBe(getRouteTag(route));
+	// The tag ignores parameter names
+	const [renamed] = compileRoute([{ path: "/users/:userId", handler: () => "user" }]);
+	expect(getRouteTag(renamed)).toBe(getRouteTag(route));
+});
+
+test("reloadRoutes - Swaps routes and purges entries of removed or changed routes", async () => {
+	const store = new LRUCacheStore({ max: 10 });
+	const routesRef: RoutesRef = {
+		current: compileRoute([
+			proxyRoute("/kept", "https://kept.example.test"),
+			proxyRoute("/changed", "https://old.example.test"),
+			proxyRoute("/removed", "https://removed.example.test"),
+		]),
+	};
+	const [kept, changed, removed] = routesRef.current;
+	await store.set("kept", createEntry(kept));
+	await store.set("changed", createEntry(changed));
+	await store.set("removed", createEntry(removed));
+	await store.set("untagged", {
+		body: new Uint8Array(),
+		status: 200,
+		headers: [],
+	});
+
+	const nextRoutes = compileRoute([
+		proxyRoute("/kept", "https://kept.example.test"),
+		proxyRoute("/changed", "https://new.example.test"),
+		proxyRoute("/added", "https://added.example.test"),
+	]);
+	const summary = await reloadRoutes(routesRef, nextRoutes, { purge: true, store });
+
+	expect(routesRef.current).toBe(nextRoutes);
+	expect(summary).toEqual({ added: 1, removed: 1, changed: 1, purged: 2 });
+	expect((await store.keys()).sort()).toEqual(["kept", "untagged"]);
+	expect(
+		findMatchedRoute(new Request("http://example.com/added"), routesRef.current),
+	).toBeDefined();
+});
+
+test("reloadRoutes - Keeps the cache unless purging is requested", async () => {
+	const store = new LRUCacheStore({ max: 10 });
+	const routesRef: RoutesRef = {
+		current: compileRoute([proxyRoute("/removed", "https://removed.example.test")]),
+	};
+	await store.set("removed", createEntry(routesRef.current[0]));
+
+	const summary = await reloadRoutes(routesRef, [], { store });
+
+	expect(summary.removed).toBe(1);
+	expect(summary.purged).toBe(0);
+	expect(await store.has("removed")).toBe(true);
+});
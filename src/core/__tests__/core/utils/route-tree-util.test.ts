@@ -0,0 +1,78 @@
+import { test, expect, spyOn } from "bun:test";
+import { compileRoute, findMatchedRoute } from "../../../utils/router.util";
+import { getCandidateRoutes, getRouteTree } from "../../../utils/route-tree.util";
+
+const matchPath = (compiledRoutes: CompiledRoute[], url: string) =>
+	findMatchedRoute(new Request(url), compiledRoutes)?.route.path.pathname;
+
+test("findMatchedRoute - Static segments beat params which beat wildcards", () => {
+	const compiledRoutes = compileRoute([
+		{ path: "/users/me", handler: () => "me" },
+		{ path: "/users/*", handler: () => "wildcard" },
+		{ path: "/users/:id", handler: () => "id" },
+	]);
+
+	expect(matchPath(compiledRoutes, "http://example.com/users/me")).toBe("/users/me");
+	expect(matchPath(compiledRoutes, "http://example.com/users/42")).toBe("/users/:id");
+	expect(matchPath(compiledRoutes, "http://example.com/users/42/posts")).toBe(
+		"/users/*",
+	);
+});
+
+test("findMatchedRoute - Precedence does not depend on declaration order", () => {
+	const routes = [
+		{ path: "/:section/list", handler: () => "param" },
+		{ path: "/docs/:page", handler: () => "static" },
+	];
+
+	const forward = compileRoute(routes);
+	const backward = compileRoute([...routes].reverse());
+
+	expect(matchPath(forward, "http://example.com/docs/list")).toBe("/docs/:page");
+	expect(matchPath(backward, "http://example.com/docs/list")).toBe("/docs/:page");
+});
+
+test("findMatchedRoute - Fixed hostnames beat hostname patterns", () => {
+	const compiledRoutes = compileRoute([
+		{ path: "/", hostname: "cdn.example.test", handler: () => "cdn" },
+		{ path: "/", hostname: ":tenant.example.test", handler: () => "tenant" },
+	]);
+
+	const match = findMatchedRoute(
+		new Request("http://cdn.example.test/"),
+		compiledRoutes,
+	);
+	expect(match?.route.path.hostname).toBe("cdn.example.test");
+});
+
+test("getCandidateRoutes - Only returns routes along the request path", () => {
+	const compiledRoutes = compileRoute([
+		{ path: "/api/users/:id", handler: () => "user" },
+		{ path: "/api/orders/:id", handler: () => "order" },
+		{ path: "/:anything", handler: () => "anything" },
+	]);
+
+	const candidates = getCandidateRoutes(
+		getRouteTree(compiledRoutes),
+		"http://example.com/api/users/1",
+	);
+	expect(candidates.map((route) => route.path.pathname)).toEqual([
+		"/api/users/:id",
+		"/:anything",
+	]);
+});
+
+test("compileRoute - Warns about shadowed routes", () => {
+	const warn = spyOn(console, "warn").mockImplementation(() => {});
+
+	compileRoute([
+		{ path: "/items/:id", handler: () => "first" },
+		{ path: "/items/:itemId", method: "GET", handler: () => "second" },
+		{ path: "/items", method: "GET", handler: () => "list" },
+		{ path: "/items", method: "POST", handler: () => "create" },
+	]);
+
+	expect(warn).toHaveBeenCalledTimes(1);
+	expect(warn.mock.calls[0][0]).toContain("Route #0 (/items/:id) is shadowed by route #1");
+	warn.mockRestore();
+});
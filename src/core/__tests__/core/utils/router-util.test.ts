@@ -4,6 +4,10 @@ import {
 	compileRoute,
 	constructUrlFromPatternAndParams,
 	findMatchedRoute,
+	findPathRoutes,
+	getAllowedMethods,
+	group,
+	resolveUpstreamUrl,
 } from "../../../utils/router.util";
 
 test("compileRoute - Compiles routes correctly", () => {
@@ -61,4 +65,164 @@ test("constructUrlFromPatternAndParams - Constructs URL with mandatory parameter
 test("constructUrlFromPatternAndParams - Throws error for missing mandatory parameter", () => {
   const pattern = new URLPattern({ pathname: '/users/:userId' });
   expect(() => constructUrlFromPatternAndParams(pattern)).toThrow('Missing mandatory parameter: userId');
-});
\ No newline at end of file
+});
+
+test("compileRoute - Expands per-method handlers", () => {
+	const compiledRoutes = compileRoute([
+		{
+			path: "/users",
+			handler: {
+				get: () => ({ users: [] }),
+				POST: () => ({ created: true }),
+			},
+		},
+	]);
+
+	expect(compiledRoutes.length).toBe(2);
+	expect(compiledRoutes[0].methods).toEqual(["GET", "HEAD"]);
+	expect(compiledRoutes[1].methods).toEqual(["POST"]);
+});
+
+test("findMatchedRoute - Matches routes by method", () => {
+	const compiledRoutes = compileRoute([
+		{ path: "/users", method: "GET", handler: () => "list" },
+		{ path: "/users", method: ["post", "PUT"], handler: () => "write" },
+		{ path: "/any", handler: () => "any" },
+	]);
+
+	const getMatch = findMatchedRoute(new Request("http://example.com/users"), compiledRoutes);
+	expect(getMatch?.route.methods).toEqual(["GET", "HEAD"]);
+
+	const putMatch = findMatchedRoute(
+		new Request("http://example.com/users", { method: "PUT" }),
+		compiledRoutes,
+	);
+	expect(putMatch?.route.methods).toEqual(["POST", "PUT"]);
+
+	const deleteRequest = new Request("http://example.com/users", { method: "DELETE" });
+	expect(findMatchedRoute(deleteRequest, compiledRoutes)).toBeUndefined();
+
+	const anyMatch = findMatchedRoute(
+		new Request("http://example.com/any", { method: "PATCH" }),
+		compiledRoutes,
+	);
+	expect(anyMatch).toBeDefined();
+});
+
+test("getAllowedMethods - Lists methods of routes matching the path", () => {
+	const compiledRoutes = compileRoute([
+		{ path: "/users", method: "GET", handler: () => "list" },
+		{ path: "/users", method: "POST", handler: () => "create" },
+	]);
+	const request = new Request("http://example.com/users", { method: "DELETE" });
+
+	expect(getAllowedMethods(request, compiledRoutes)).toEqual(["GET", "HEAD", "POST"]);
+	expect(
+		getAllowedMethods(new Request("http://example.com/missing"), compiledRoutes),
+	).toEqual([]);
+});
+
+test("findPathRoutes - Finds the routes matching the path, the most specific first", () => {
+	const compiledRoutes = compileRoute([
+		{ path: "/users/:id", method: "GET", handler: () => "user" },
+		{ path: "/users/me", method: "POST", cors: { enabled: false }, handler: () => "me" },
+	]);
+	const request = new Request("http://example.com/users/me", { method: "DELETE" });
+
+	const pathRoutes = findPathRoutes(request, compiledRoutes);
+	expect(pathRoutes.map((route) => route.path.pathname)).toEqual(["/users/me", "/users/:id"]);
+	expect(pathRoutes[0].cors).toEqual({ enabled: false });
+	expect(findPathRoutes(new Request("http://example.com/missing"), compiledRoutes)).toEqual([]);
+});
+
+test("findMatchedRoute - Matches routes by hostname", () => {
+	const compiledRoutes = compileRoute([
+		{ path: "/assets/:file", hostname: ":tenant.example.test", handler: () => "tenant" },
+		{ path: "/assets/:file", hostname: "cdn.example.test", handler: () => "cdn" },
+	]);
+
+	const cdnMatch = findMatchedRoute(
+		new Request("http://cdn.example.test/assets/logo.png"),
+		compiledRoutes,
+	);
+	expect(cdnMatch?.route.path.hostname).toBe("cdn.example.test");
+	expect(cdnMatch?.params).toEqual({ file: "logo.png" });
+
+	const tenantMatch = findMatchedRoute(
+		new Request("http://acme.example.test/assets/logo.png"),
+		compiledRoutes,
+	);
+	expect(tenantMatch?.params).toEqual({ tenant: "acme", file: "logo.png" });
+
+	expect(
+		findMatchedRoute(new Request("http://other.test/assets/logo.png"), compiledRoutes),
+	).toBeUndefined();
+});
+
+test("findMatchedRoute - Matches routes with a full URLPattern init", () => {
+	const compiledRoutes = compileRoute([
+		{
+			path: "/search",
+			pattern: { protocol: "https", search: "q=*" },
+			handler: () => "search",
+		},
+	]);
+
+	expect(
+		findMatchedRoute(new Request("https://example.com/search?q=bun"), compiledRoutes),
+	).toBeDefined();
+	expect(
+		findMatchedRoute(new Request("http://example.com/search?q=bun"), compiledRoutes),
+	).toBeUndefined();
+	expect(
+		findMatchedRoute(new Request("https://example.com/search"), compiledRoutes),
+	).toBeUndefined();
+});
+
+test("compileRoute - Flattens nested route groups", () => {
+	const compiledRoutes = compileRoute([
+		group(
+			"/api/",
+			{
+				cache: false,
+				maxAge: 60,
+				cors: { allowOrigin: "https://app.example.test" },
+				upstream: "https://api.example.test/v2",
+			},
+			[
+				{ path: "/", handler: () => "root" },
+				{ path: "/users/:id", cache: true, maxAge: 5, handler: () => "user" },
+				group("/admin", { cors: { allowCredentials: "false" }, upstream: "admin" }, [
+					{ path: "stats", handler: () => "stats" },
+				]),
+			],
+		),
+		{ path: "/health", handler: () => "ok" },
+	]);
+
+	expect(compiledRoutes.map((route) => route.path.pathname)).toEqual([
+		"/api",
+		"/api/users/:id",
+		"/api/admin/stats",
+		"/health",
+	]);
+	expect(compiledRoutes.map((route) => route.cache)).toEqual([false, true, false, true]);
+	expect(compiledRoutes.map((route) => route.maxAge)).toEqual([60, 5, 60, undefined]);
+	expect(compiledRoutes[1].upstream).toBe("https://api.example.test/v2");
+	expect(compiledRoutes[2].upstream).toBe("https://api.example.test/v2/admin");
+	expect(compiledRoutes[2].cors).toEqual({
+		allowOrigin: "https://app.example.test",
+		allowCredentials: "false",
+	});
+	expect(compiledRoutes[3].cors).toBeUndefined();
+});
+
+test("resolveUpstreamUrl - Resolves relative URLs against the upstream", () => {
+	expect(resolveUpstreamUrl("/users/:id", "https://api.example.test/v2/")).toBe(
+		"https://api.example.test/v2/users/:id",
+	);
+	expect(resolveUpstreamUrl("https://other.test/x", "https://api.example.test")).toBe(
+		"https://other.test/x",
+	);
+	expect(() => resolveUpstreamUrl("/users")).toThrow("requires an upstream");
+});
@@ -0,0 +1,64 @@
+import { test, expect } from "bun:test";
+import { BackgroundTasks, runInBackground } from "../../../utils/background.util";
+import { shutdownServer } from "../../../utils/shutdown.util";
+
+test("shutdownServer - Drains requests and background tasks before the final step", async () => {
+	const steps: string[] = [];
+	const server = Bun.serve({
+		port: 0,
+		async fetch() {
+			runInBackground("revalidation", async () => {
+				await Bun.sleep(100);
+				steps.push("revalidated");
+			});
+			await Bun.sleep(50);
+			steps.push("responded");
+			return new Response("ok");
+		},
+	});
+
+	const pending = fetch(`http://localhost:${server.port}/`);
+	await Bun.sleep(10);
+	await shutdownServer(server, {
+		timeout: 1000,
+		onShutdown: () => {
+			steps.push("snapshot");
+		},
+	});
+
+	expect(await (await pending).text()).toBe("ok");
+	expect(steps).toEqual(["responded", "revalidated", "snapshot"]);
+});
+
+test("shutdownServer - Runs the final step after the timeout", async () => {
+	let snapshot = false;
+	const server = Bun.serve({ port: 0, fetch: () => new Response("ok") });
+	runInBackground("stuck", () => Bun.sleep(200));
+
+	await shutdownServer(server, {
+		timeout: 20,
+		onShutdown: () => {
+			snapshot = true;
+		},
+	});
+	expect(snapshot).toBe(true);
+});
+
+test("shutdownServer - Drains the background tasks of the server", async () => {
+	const steps: string[] = [];
+	const backgroundTasks = new BackgroundTasks();
+	const server = Bun.serve({ port: 0, fetch: () => new Response("ok") });
+	backgroundTasks.run("revalidation", async () => {
+		await Bun.sleep(50);
+		steps.push("revalidated");
+	});
+
+	await shutdownServer(server, {
+		timeout: 1000,
+		backgroundTasks,
+		onShutdown: () => {
+			steps.push("snapshot");
+		},
+	});
+	expect(steps).toEqual(["revalidated", "snapshot"]);
+});
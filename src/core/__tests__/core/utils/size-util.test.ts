@@ -0,0 +1,36 @@
+import { test, expect } from "bun:test";
+import {
+	ENTRY_OVERHEAD,
+	HEADER_OVERHEAD,
+	sizeOfCacheableObject,
+} from "../../../utils/size.util";
+
+const mockCacheData: ResponseCacheableObject = {
+	body: new Uint8Array(Buffer.from("Hello, World")),
+	status: 200,
+	headers: [
+		["content-type", "text/plain"],
+		["etag", '"abc"'],
+	],
+};
+
+test("sizeOfCacheableObject - Sums the body, the headers and the overhead", () => {
+	const headersSize = 2 * HEADER_OVERHEAD + "content-type".length + "text/plain".length + 4 + 5;
+
+	expect(sizeOfCacheableObject(mockCacheData)).toBe(ENTRY_OVERHEAD + 12 + headersSize);
+	expect(sizeOfCacheableObject(mockCacheData, "req:key")).toBe(
+		ENTRY_OVERHEAD + 12 + headersSize + "req:key".length,
+	);
+});
+
+test("sizeOfCacheableObject - Accounts for an empty response", () => {
+	expect(sizeOfCacheableObject({ body: new Uint8Array(0), status: 204, headers: [] })).toBe(
+		ENTRY_OVERHEAD,
+	);
+});
+
+test("sizeOfCacheableObject - Grows with the body only by its length", () => {
+	const large = { ...mockCacheData, body: new Uint8Array(1024 * 1024) };
+
+	expect(sizeOfCacheableObject(large) - sizeOfCacheableObject(mockCacheData)).toBe(1024 * 1024 - 12);
+});
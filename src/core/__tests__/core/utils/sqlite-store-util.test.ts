@@ -0,0 +1,104 @@
+import { test, expect, afterAll } from "bun:test";
+import path from "path";
+import os from "os";
+import { rmSync } from "node:fs";
+import { SqliteCacheStore } from "../../../utils/sqlite-store.util";
+import { sizeOfCacheableObject } from "../../../utils/size.util";
+
+const dbPath = path.join(os.tmpdir(), `test_sqlite_store_${process.pid}.sqlite`);
+
+const createEntry = (body: string, status = 200): ResponseCacheableObject => ({
+	body: new TextEncoder().encode(body),
+	status,
+	headers: [
+		["content-type", "text/plain"],
+		["x-cache-date", "2026-10-19T00:00:00.000Z"],
+	],
+});
+
+afterAll(() => {
+	for (const suffix of ["", "-wal", "-shm"]) {
+		rmSync(`${dbPath}${suffix}`, { force: true });
+	}
+});
+
+test("SqliteCacheStore - Stores entries with their metadata", async () => {
+	const store = new SqliteCacheStore({ path: ":memory:" });
+	await store.set("a", createEntry("first", 404));
+
+	expect(await store.get("a")).toEqual(createEntry("first", 404));
+	const entry = await store.getEntry("a");
+	expect(entry?.size).toBe(sizeOfCacheableObject(createEntry("first", 404), "a"));
+	expect(await store.has("a")).toBe(true);
+	expect(await store.keys()).toEqual(["a"]);
+
+	// Replacing an entry does not count it twice
+	await store.set("a", createEntry("first", 404));
+	expect(await store.stats()).toEqual({
+		entries: 1,
+		size: entry?.size as number,
+		maxSize: undefined,
+	});
+
+	expect(await store.delete("a")).toBe(true);
+	expect(await store.delete("a")).toBe(false);
+	expect(await store.get("a")).toBeUndefined();
+	expect((await store.stats()).size).toBe(0);
+	store.close();
+});
+
+test("SqliteCacheStore - Entries survive a restart", async () => {
+	const store = new SqliteCacheStore({ path: dbPath });
+	await store.set("kept", createEntry("persisted"));
+	const { size } = await store.stats();
+	store.close();
+
+	const reopened = new SqliteCacheStore({ path: dbPath });
+	expect(await reopened.get("kept")).toEqual(createEntry("persisted"));
+	expect((await reopened.stats()).size).toBe(size);
+	await reopened.clear();
+	expect(await reopened.keys()).toEqual([]);
+	reopened.close();
+});
+
+test("SqliteCacheStore - Evicts the least recently used entries in the background", async () => {
+	const probe = new SqliteCacheStore({ path: ":memory:" });
+	await probe.set("probe", createEntry("0123456789"));
+	const entrySize = (await probe.stats()).size;
+	probe.close();
+	const store = new SqliteCacheStore({ path: ":memory:", maxSize: entrySize * 3 });
+
+	for (const key of ["a", "b", "c"]) {
+		await store.set(key, createEntry("0123456789"));
+		await Bun.sleep(2);
+	}
+	// Reading "a" makes "b" the least recently used entry
+	await store.get("a");
+	await store.set("d", createEntry("0123456789"));
+	expect((await store.stats()).entries).toBe(4);
+
+	await Bun.sleep(10);
+	expect((await store.keys()).sort()).toEqual(["a", "d"]);
+	expect((await store.stats()).size).toBeLessThanOrEqual(entrySize * 3 * 0.9);
+	store.close();
+});
+
+test("SqliteCacheStore - Touched entries are evicted last", async () => {
+	const probe = new SqliteCacheStore({ path: ":memory:" });
+	await probe.set("probe", createEntry("0123456789"));
+	const entrySize = (await probe.stats()).size;
+	probe.close();
+	const store = new SqliteCacheStore({ path: ":memory:", maxSize: entrySize * 3 });
+
+	for (const key of ["a", "b", "c"]) {
+		await store.set(key, createEntry("0123456789"));
+		await Bun.sleep(2);
+	}
+	// Marks "a" and "b" as recently used without reading them
+	await store.touch(["a", "b", "missing"]);
+	await store.set("d", createEntry("0123456789"));
+
+	await Bun.sleep(10);
+	expect((await store.keys()).sort()).toEqual(["b", "d"]);
+	store.close();
+});
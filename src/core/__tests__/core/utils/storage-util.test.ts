@@ -1,6 +1,8 @@
-import { serializeToFile, deserializeFromFile } from '../../../utils/storage.util';
+import { serializeToFile, deserializeFromFile, acquireFileLock, SNAPSHOT_MAGIC, SNAPSHOT_VERSION } from '../../../utils/storage.util';
+import { sizeOfCacheableObject } from '../../../utils/size.util';
 import { test, expect } from 'bun:test';
 import path from "path";
+import { unlinkSync } from "node:fs";
 import os from "os";
 
 const filename = path.join(os.tmpdir(), "test_cache.bin");
@@ -57,4 +59,106 @@ test("deserializeFromFile handles errors", async () => {
   console.log('nonExistentFile', nonExistentFile);
   expect(deserializeFromFile(nonExistentFile)).rejects.toThrow();
   // Add more error handling scenarios as needed
-});
\ No newline at end of file
+});
+
+// Atomic write
+test("serializeToFile replaces the file without leaving temporary files", async () => {
+  await serializeToFile(mockDataArray, filename);
+  await serializeToFile(mockDataArray, filename);
+
+  expect(await Bun.file(`${filename}.${process.pid}.tmp`).exists()).toBe(false);
+  expect(await Bun.file(`${filename}.lock`).exists()).toBe(false);
+  expect((await deserializeFromFile(filename)).length).toBe(mockDataArray.length);
+});
+
+// Lock
+test("serializeToFile refuses to write while another process holds the lock", async () => {
+  // The parent process is alive for the duration of the test
+  await Bun.write(`${filename}.lock`, String(process.ppid));
+  try {
+    await expect(serializeToFile(mockDataArray, filename)).rejects.toThrow("is locked by process");
+  } finally {
+    unlinkSync(`${filename}.lock`);
+  }
+});
+
+test("acquireFileLock takes over a lock left by a dead process", async () => {
+  const lockedFile = path.join(os.tmpdir(), "test_lock.bin");
+  // Highest pid on Linux, never in use
+  await Bun.write(`${lockedFile}.lock`, "4194304");
+
+  const release = await acquireFileLock(lockedFile);
+  expect(await Bun.file(`${lockedFile}.lock`).text()).toBe(String(process.pid));
+  await release();
+  expect(await Bun.file(`${lockedFile}.lock`).exists()).toBe(false);
+});
+
+// Format
+const headerValueWithNewline: DataArray = [
+  "requestId2",
+  {
+    value: {
+      body: new Uint8Array(Buffer.from("body2", "utf-8")),
+      status: 404,
+      headers: [["x-note", "line1\nline2: with colon"], ["content-type", "text/plain"]]
+    },
+    size: 100
+  }
+];
+
+test("serializeToFile writes a versioned file that round-trips any header value", async () => {
+  await serializeToFile([...mockDataArray, headerValueWithNewline], filename);
+
+  const data = Buffer.from(await Bun.file(filename).arrayBuffer());
+  expect(data.subarray(0, 4).equals(SNAPSHOT_MAGIC)).toBe(true);
+  expect(data.readUInt16LE(4)).toBe(SNAPSHOT_VERSION);
+
+  const [, item] = await deserializeFromFile(filename);
+  expect(item[0]).toBe("requestId2");
+  expect(item[1].value.status).toBe(404);
+  expect(item[1].value.headers).toEqual(headerValueWithNewline[1].value.headers);
+  expect(Buffer.from(item[1].value.body).toString()).toBe("body2");
+  // Loaded entries are accounted like the entries inserted in the cache
+  expect(item[1].size).toBe(sizeOfCacheableObject(item[1].value, "requestId2"));
+});
+
+test("deserializeFromFile skips corrupt records and keeps the others", async () => {
+  await serializeToFile([...mockDataArray, headerValueWithNewline], filename);
+  const data = Buffer.from(await Bun.file(filename).arrayBuffer());
+
+  // Flip the last byte of the first record's body
+  const corrupted = Buffer.from(data);
+  const firstBodyEnd = data.indexOf("body1") + 5;
+  corrupted[firstBodyEnd - 1] ^= 0xff;
+  await Bun.write(filename, corrupted);
+  expect((await deserializeFromFile(filename)).map(([id]) => id)).toEqual(["requestId2"]);
+
+  // Truncate the last record
+  await Bun.write(filename, data.subarray(0, data.length - 3));
+  expect((await deserializeFromFile(filename)).map(([id]) => id)).toEqual(["requestId1"]);
+});
+
+test("deserializeFromFile migrates version 1 files", async () => {
+  const body = Buffer.from("legacy");
+  const requestId = Buffer.from("legacyId");
+  const headers = Buffer.from("content-type:text/plain\nlocation:http://example.com/");
+  const legacyRecord = Buffer.alloc(4 + requestId.length + 4 + headers.length + 8 + body.length);
+  let offset = legacyRecord.writeUInt32LE(requestId.length);
+  offset += requestId.copy(legacyRecord, offset);
+  offset = legacyRecord.writeUInt32LE(headers.length, offset);
+  offset += headers.copy(legacyRecord, offset);
+  offset = legacyRecord.writeInt32LE(200, offset);
+  offset = legacyRecord.writeUInt32LE(body.length, offset);
+  body.copy(legacyRecord, offset);
+  // A complete record followed by a truncated one
+  await Bun.write(filename, Buffer.concat([legacyRecord, legacyRecord.subarray(0, 10)]));
+
+  const items = await deserializeFromFile(filename);
+  expect(items.length).toBe(1);
+  expect(items[0][0]).toBe("legacyId");
+  expect(items[0][1].value.headers).toEqual([
+    ["content-type", "text/plain"],
+    ["location", "http://example.com/"],
+  ]);
+  expect(items[0][1].size).toBe(sizeOfCacheableObject(items[0][1].value, "legacyId"));
+});
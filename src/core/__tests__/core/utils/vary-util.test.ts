@@ -0,0 +1,63 @@
+import { test, expect } from "bun:test";
+import { LRUCacheStore } from "../../../utils/cache-store.util";
+import {
+	VARY_MARKER_SUFFIX,
+	appendRouteVary,
+	createVaryMarker,
+	getVariantId,
+	getVaryHeaders,
+	resolveCacheKey,
+} from "../../../utils/vary.util";
+
+test("getVaryHeaders - Parses the Vary header", () => {
+	expect(getVaryHeaders([])).toEqual([]);
+	expect(
+		getVaryHeaders([["vary", "Accept-Language, Accept, accept-encoding, accept"]]),
+	).toEqual(["accept", "accept-language"]);
+	expect(getVaryHeaders([["vary", "*"]])).toEqual(["*"]);
+});
+
+test("getVariantId - Keys the variants on the varied headers", () => {
+	const french = new Request("http://example.com", {
+		headers: { "accept-language": "fr", "x-other": "1" },
+	});
+	const otherFrench = new Request("http://example.com", {
+		headers: { "accept-language": "fr" },
+	});
+	const english = new Request("http://example.com", {
+		headers: { "accept-language": "en" },
+	});
+
+	expect(getVariantId("req:a", french, [])).toBe("req:a");
+	expect(getVariantId("req:a", french, ["accept-language"])).toBe(
+		getVariantId("req:a", otherFrench, ["accept-language"]),
+	);
+	expect(getVariantId("req:a", french, ["accept-language"])).not.toBe(
+		getVariantId("req:a", english, ["accept-language"]),
+	);
+});
+
+test("resolveCacheKey - Resolves the variant recorded by the marker", async () => {
+	const store = new LRUCacheStore({ max: 10 });
+	const request = new Request("http://example.com", { headers: { accept: "text/html" } });
+	expect(await resolveCacheKey(store, "req:a", request)).toBe("req:a");
+
+	await store.set(`req:a${VARY_MARKER_SUFFIX}`, createVaryMarker(["accept"]));
+	expect(await resolveCacheKey(store, "req:a", request)).toBe(
+		getVariantId("req:a", request, ["accept"]),
+	);
+});
+
+test("appendRouteVary - Adds the route's keyed headers to Vary", () => {
+	const headers = new Headers({ Vary: "Accept" }) as Headers;
+	appendRouteVary(headers, { headers: ["accept", "X-Tenant"], cookies: ["session"] });
+	expect(headers.get("vary")).toBe("Accept, x-tenant, cookie");
+
+	const anything = new Headers({ Vary: "*" }) as Headers;
+	appendRouteVary(anything, { headers: ["x-tenant"] });
+	expect(anything.get("vary")).toBe("*");
+
+	const none = new Headers() as Headers;
+	appendRouteVary(none, { query: ["page"] });
+	expect(none.has("vary")).toBe(false);
+});
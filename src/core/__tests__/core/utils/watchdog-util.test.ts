@@ -0,0 +1,110 @@
+import { test, expect, beforeEach } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "os";
+import path from "path";
+import { LRUCacheStore } from "../../../utils/cache-store.util";
+import { COUNTERS, getCounters, resetCounters } from "../../../utils/metrics.util";
+import { MemoryWatchdog, sampleMemory } from "../../../utils/watchdog.util";
+
+const createEntry = (size: number): ResponseCacheableObject => ({
+	body: new Uint8Array(size),
+	status: 200,
+	headers: [],
+});
+
+const createStore = async (entries: number) => {
+	const store = new LRUCacheStore({
+		maxSize: 10000,
+		sizeCalculation: (value) => value.body.length,
+	});
+	for (let index = 0; index < entries; index++) {
+		await store.set(`entry-${index}`, createEntry(100));
+	}
+	return store;
+};
+
+beforeEach(() => {
+	resetCounters();
+});
+
+test("MemoryWatchdog - Leaves the cache alone below the high-water mark", async () => {
+	const store = await createStore(10);
+	const watchdog = new MemoryWatchdog(store, {
+		sample: async () => ({ used: 850, limit: 1000 }),
+	});
+
+	expect(await watchdog.check()).toBe(0);
+	expect(await watchdog.status()).toEqual({
+		budget: 10000,
+		underPressure: false,
+		pressureEvictions: 0,
+		memory: { used: 850, limit: 1000 },
+	});
+	expect((await store.stats()).entries).toBe(10);
+});
+
+test("MemoryWatchdog - Evicts down to the low-water mark and refuses new entries", async () => {
+	const store = await createStore(10);
+	let memory = { used: 1950, limit: 2000 };
+	const watchdog = new MemoryWatchdog(store, { sample: async () => memory });
+
+	// 350 bytes above the low-water mark: 4 entries of 100 bytes are evicted
+	expect(await watchdog.check()).toBe(4);
+	expect(await store.has("entry-0")).toBe(false);
+	expect(await store.has("entry-4")).toBe(true);
+	expect(await watchdog.status()).toMatchObject({
+		budget: 650,
+		underPressure: true,
+		pressureEvictions: 4,
+	});
+	expect(getCounters()[COUNTERS.PRESSURE_EVICTIONS]).toBe(4);
+
+	await store.set("refused", createEntry(100));
+	expect(await store.has("refused")).toBe(false);
+
+	// Between the water marks the pressure is kept
+	memory = { used: 1700, limit: 2000 };
+	expect(await watchdog.check()).toBe(0);
+	expect((await watchdog.status()).underPressure).toBe(true);
+
+	memory = { used: 1500, limit: 2000 };
+	await watchdog.check();
+	expect((await watchdog.status()).underPressure).toBe(false);
+	expect((await watchdog.status()).budget).toBe(10000);
+	await store.set("accepted", createEntry(100));
+	expect(await store.has("accepted")).toBe(true);
+});
+
+test("MemoryWatchdog - Applies custom water marks", async () => {
+	const store = await createStore(10);
+	const watchdog = new MemoryWatchdog(store, {
+		highWaterMark: 0.5,
+		lowWaterMark: 0.3,
+		sample: async () => ({ used: 550, limit: 1000 }),
+	});
+
+	expect(await watchdog.check()).toBe(3);
+	expect((await store.stats()).size).toBe(700);
+});
+
+test("sampleMemory - Reads the process memory against the given limit", async () => {
+	const sample = await sampleMemory("/nonexistent-cgroup", 1024 ** 4);
+
+	expect(sample.limit).toBe(1024 ** 4);
+	expect(sample.used).toBeGreaterThan(0);
+});
+
+test("sampleMemory - Compares the cgroup working set, not its page cache", async () => {
+	const root = await mkdtemp(path.join(os.tmpdir(), "cgroup-"));
+	const megabyte = 1024 ** 2;
+	await writeFile(path.join(root, "memory.max"), `${4096 * megabyte}\n`);
+	// Nearly at the limit, mostly because of the inactive page cache
+	await writeFile(path.join(root, "memory.current"), `${4000 * megabyte}\n`);
+	await writeFile(path.join(root, "memory.stat"), `inactive_file ${3600 * megabyte}\n`);
+
+	const sample = await sampleMemory(root);
+	expect(sample.limit).toBe(4096 * megabyte);
+	expect(sample.used).toBeGreaterThanOrEqual(400 * megabyte);
+	expect(sample.used).toBeLessThan(4096 * megabyte * 0.8);
+	await rm(root, { recursive: true });
+});
@@ -1,6 +1,7 @@
 import {
 	errorResponse,
-	jsonResponse,
+	gatewayTimeoutResponse,
+	methodNotAllowedResponse,
 	notFoundResponse,
 } from "./utils/response.util";
 import {
@@ -10,166 +11,529 @@ import {
 	getRequestId as defaultGetRequestId,
 	ENCODINGS,
 } from "./utils/http.util";
-import { findMatchedRoute } from "./utils/router.util";
+import {
+	findMatchedRoute,
+	findPathRoutes,
+	getAllowedMethods,
+} from "./utils/router.util";
 import { corsConfig, setCORSHeaders } from "./utils/cors.util";
+import {
+	composeMiddleware,
+	createStatusMiddleware,
+	faviconMiddleware,
+	healthcheckMiddleware,
+} from "./utils/middleware.util";
+import { ROUTE_TAG_HEADER, tagCacheableObject } from "./utils/reload.util";
+import { BackgroundTasks } from "./utils/background.util";
+import { Coalescer } from "./utils/coalesce.util";
+import {
+	FRESHNESS,
+	getCacheAge,
+	getFreshness,
+	isUsableOnError,
+} from "./utils/freshness.util";
+import { COUNTERS, Counters } from "./utils/metrics.util";
+import { RouteError, isServerError } from "./utils/error.util";
+import {
+	getFreshnessWindows,
+	getRequestCacheControl,
+	isCacheableStatus,
+	isStorable,
+	satisfiesRequest,
+} from "./utils/cache-control.util";
+import {
+	VARY_MARKER_SUFFIX,
+	appendRouteVary,
+	createVaryMarker,
+	getResponseVary,
+	getVariantId,
+	resolveCacheKey,
+} from "./utils/vary.util";
+import {
+	UPSTREAM_ETAG_HEADER,
+	UPSTREAM_LAST_MODIFIED_HEADER,
+	createUpstreamRequest,
+	isNotModified,
+	refreshCacheableObject,
+} from "./utils/conditional.util";
+import { LRUCacheStore } from "./utils/cache-store.util";
 import { LRUCache } from "lru-cache";
 
 /**
- * A set to keep track of ongoing background revalidation requests.
+ * Statuses whose responses never have a body.
  */
-const bgRequests = new Set<string>();
+const NULL_BODY_STATUSES = [204, 205, 304];
 
-export const run = async (routes: CompiledRoute[], options?: {
+/**
+ * Checks if a response has content to serve. An empty 200 response means the handler returned
+ * nothing, other statuses such as 204 or a redirect are meaningful without a body.
+ *
+ * @param {ResponseCacheableObject} data - The response.
+ * @returns {boolean} True if the response can be served.
+ */
+const hasContent = (data: ResponseCacheableObject): boolean =>
+	data.body.length > 0 || data.status !== 200;
+
+/**
+ * Starts the BunBlaze server. Routes can be given as a reference whose `current` routes may be
+ * swapped at runtime with `reloadRoutes`; each request uses the routes current when it arrives.
+ */
+export const run = async (routes: CompiledRoute[] | RoutesRef, options?: {
+  // Store of the cached responses, one per `run()` instance
+  store?: CacheStore;
+  // LRU cache used as the store when no store is given
   cache?: LRUCache<string, ResponseCacheableObject>,
   hostname?: string;
   port?: number;
-  getRequestId?: (request: Request) => string;
+  getRequestId?: (
+    request: Request,
+    vary?: RouteVary,
+    normalize?: CacheKeyNormalization,
+  ) => string;
+  // Global middleware, run for every request before the route is resolved
+  middleware?: Middleware[];
+  // Path of the status endpoint, e.g. "/__status", disabled when unset
+  statusPath?: string;
+  // Additional statistics reported on the status endpoint, e.g. the memory watchdog
+  status?: () => Promise<JsonObject> | JsonObject;
+  // Counters reported on the status endpoint, shared with e.g. the memory watchdog
+  counters?: Counters;
+  // Background revalidations, given to wait for them on shutdown
+  backgroundTasks?: BackgroundTasks;
 }) => {
-  const cache = options?.cache;
+  const routesRef = Array.isArray(routes) ? { current: routes } : routes;
+  const cache =
+    options?.store ?? (options?.cache ? new LRUCacheStore(options.cache) : undefined);
   const getRequestId = options?.getRequestId || defaultGetRequestId;
+  // Like the store, the calls in progress and the counters belong to this instance
+  const coalescer = new Coalescer();
+  const backgroundTasks = options?.backgroundTasks ?? new BackgroundTasks();
+  const counters = options?.counters ?? new Counters();
+
 	/**
-	 * Starts a Bun server with defined hostname and port. The server handles incoming HTTP requests
-	 * and routes them based on the defined route handlers, while also handling CORS and caching.
+	 * Calls the handler of a cacheable route. Route errors with a status the route caches, such as
+	 * a 404 from the upstream, are turned into responses so that they can be cached too.
 	 */
-	const server = Bun.serve({
-    ...(options?.hostname ? { hostname: options.hostname } : {}),
-    ...(options?.port ? { port: options.port } : {}),
-		async fetch(request) {
-			// Ignore requests for favicon.ico
-			if (request.url.includes("/favicon.ico")) {
-				return notFoundResponse();
+	const callHandler = async (
+		request: Request,
+		params: RouteParams | undefined,
+		route: CompiledRoute,
+	): Promise<RouteResponse> => {
+		try {
+			return await route.handler(request, params, route);
+		} catch (ex) {
+			if (ex instanceof RouteError && isCacheableStatus(ex.statusCode, route)) {
+				return errorResponse(ex);
 			}
+			throw ex;
+		}
+	};
 
-			/**
-			 * Health Check should be defined before any request and needs does not
-			 * need to be cached!
-			 */
-			if (request.url.includes("/healthcheck")) {
-				return jsonResponse({
-					success: true,
-					message: "Health Check is good.",
-				});
+	/**
+	 * Caches a response of a route, unless its status or Cache-Control forbids it, in which case the previous
+	 * entry is dropped so that it is not served anymore. Responses varying on request headers are stored
+	 * under the key of the variant matching the request. Reports whether the response was stored, as only
+	 * stored responses may be shared with other clients.
+	 */
+	const storeResponse = async (
+		requestId: string,
+		route: CompiledRoute,
+		resObj: ResponseCacheableObject,
+		request: Request,
+	): Promise<{ data: ResponseCacheableObject; stored: boolean }> => {
+		if (!cache) return { data: resObj, stored: false };
+		const varyHeaders = getResponseVary(resObj, route);
+		const cacheKey = getVariantId(requestId, request, varyHeaders);
+		// Server errors do not replace an entry that may still be served on error
+		if (resObj.status >= 500) {
+			const previous = await cache.get(cacheKey);
+			if (previous && isUsableOnError(previous, getFreshnessWindows(previous, route))) {
+				return { data: resObj, stored: false };
 			}
+		}
+		if (
+			!isCacheableStatus(resObj.status, route) ||
+			!isStorable(resObj, route.upstreamCacheControl)
+		) {
+			await cache.delete(cacheKey);
+			return { data: resObj, stored: false };
+		}
+		// Record the headers the responses vary on, so that lookups resolve the variant
+		const markerKey = `${requestId}${VARY_MARKER_SUFFIX}`;
+		if (varyHeaders.length) {
+			await cache.set(
+				markerKey,
+				tagCacheableObject(createVaryMarker(varyHeaders), route),
+			);
+		} else {
+			await cache.delete(markerKey);
+		}
+		return {
+			data: await cacheResponseObject(cacheKey, tagCacheableObject(resObj, route), cache),
+			stored: true,
+		};
+	};
 
-			/**
-			 * Enable cors for all requests
-			 * @todo Add support for cors config per route and based on
-			 * domains that we already have in the list
-			 */
-			if (corsConfig.enabled && request.method === "OPTIONS") {
-				const headers = new Headers() as Headers;
-				setCORSHeaders(headers);
-				return new Response(null, { status: 204, headers });
-			}
+	/**
+	 * Returns a copy of a cached entry reporting how it is served in `X-Cache`, along with its age.
+	 */
+	const withCacheHeaders = (
+		entry: ResponseCacheableObject,
+		xCache: string,
+	): ResponseCacheableObject => {
+		const headers = new Headers(entry.headers);
+		headers.set("X-Cache", xCache);
+		const age = getCacheAge(entry);
+		if (age !== undefined) {
+			headers.set("Age", age.toString());
+		}
+		return { ...entry, headers: Array.from(headers.entries()) };
+	};
 
-			// Find route based on request
-			const r = findMatchedRoute(request, routes);
-			if (!r?.route?.handler) {
-				return notFoundResponse();
-			}
-			const requestId = getRequestId(request);
-
-			// Acceptable encodings by the request
-			const requestAcceptableEncodings = (
-				request.headers.get("accept-encoding") || ENCODINGS.IDENTITY
-			)
-				.split(",")
-				.map((t) => t.trim());
-
-			const workWithCache =
-        cache && 
-				r.route?.cache &&
-				["GET", "HEAD", "OPTIONS"].includes(request.method.toUpperCase());
-			try {
-				let data: ResponseCacheableObject | undefined;
-				// Only execute stale while revalidate if the route is cacheable
-				if (workWithCache) {
-					// Get the cached data
-					data = cache.get(requestId) as ResponseCacheableObject | undefined;
+	/**
+	 * Serves a cached entry in place of a failed handler call, logging and counting the failure.
+	 */
+	const serveOnError = (
+		entry: ResponseCacheableObject,
+		failure: unknown,
+	): ResponseCacheableObject => {
+		console.log(failure);
+		counters.increment(COUNTERS.STALE_IF_ERROR_HITS);
+		return withCacheHeaders(entry, "STALE-ERROR");
+	};
 
-					// If the cache data body is not empty, execute stale while revalidate
-					if (data?.body?.length) {
-						// Clone the request for background revalidation
-						let clonedRequest: Request | null = request.clone();
+	/**
+	 * Serves a matched route, from the cache when possible. This is the innermost
+	 * step of the middleware chain and uses the request of the context, so
+	 * middleware can replace it before the handler runs.
+	 */
+	const handleRoute = async (ctx: MiddlewareContext): Promise<Response> => {
+		const { request } = ctx;
+		const route = ctx.route as CompiledRoute;
+		const requestId = getRequestId(request, route.vary, route.normalize);
+
+		// Acceptable encodings by the request
+		const requestAcceptableEncodings = (
+			request.headers.get("accept-encoding") || ENCODINGS.IDENTITY
+		)
+			.split(",")
+			.map((t) => t.trim());
+
+		const workWithCache =
+			cache &&
+			route.cache &&
+			["GET", "HEAD", "OPTIONS"].includes(request.method.toUpperCase());
 
-						// Revalidate in background
-						(async () => {
+		// Cache directives of the client, only-if-cached is honored even when the route disables bypasses
+		const requestCacheControl = getRequestCacheControl(request);
+		const honorClient = route.clientCacheControl !== false;
+		try {
+			// Key of the cached entry, the variant matching the request when the responses vary on headers
+			const cacheKey = workWithCache
+				? await resolveCacheKey(cache, requestId, request)
+				: requestId;
+			let data: ResponseCacheableObject | undefined;
+			// Cached entry served if the handler fails, when the route allows stale-if-error
+			let staleEntry: ResponseCacheableObject | undefined;
+			// Only execute stale while revalidate if the route is cacheable
+			if (workWithCache) {
+				// Get the cached data
+				data = await cache.get(cacheKey);
+
+				// Entries without content or past their freshness windows are misses
+				const windows = data ? getFreshnessWindows(data, route) : {};
+				const freshness =
+					data && hasContent(data)
+						? getFreshness(data, windows)
+						: FRESHNESS.EXPIRED;
+				if (data && hasContent(data) && isUsableOnError(data, windows)) {
+					staleEntry = data;
+				}
+
+				if (
+					data &&
+					freshness !== FRESHNESS.EXPIRED &&
+					(!honorClient ||
+						satisfiesRequest(getCacheAge(data), windows, requestCacheControl))
+				) {
+					// Execute stale while revalidate once the entry is no longer fresh
+					if (freshness === FRESHNESS.STALE) {
+						// Clone the request for background revalidation, with the validators of the entry
+						let clonedRequest: Request | null = createUpstreamRequest(
+							request.clone(),
+							data,
+						);
+
+						// Revalidate in background, unless a revalidation is already in progress
+						backgroundTasks.run(cacheKey, async () => {
 							try {
-								// If a background request is in progress, don't revalidate
-								if (bgRequests.has(requestId)) return;
-								bgRequests.add(requestId);
-								const routeData = await r.route.handler(
-									clonedRequest,
-									r.params,
+								const routeData = await callHandler(
+									clonedRequest as Request,
+									ctx.params,
+									route,
 								);
-								let resObj = await convertToCacheableObject(routeData, [
+								// Unchanged upstream content, only the freshness of the entry is renewed
+								if (routeData instanceof Response && routeData.status === 304) {
+									const entry = await cache.get(cacheKey);
+									if (entry) {
+										await cacheResponseObject(
+											cacheKey,
+											refreshCacheableObject(entry, routeData.headers as Headers),
+											cache,
+										);
+									}
+									return;
+								}
+								const resObj = await convertToCacheableObject(routeData, [
 									ENCODINGS.BROTLI,
 								]);
-								resObj = await cacheResponseObject(requestId, resObj);
+								if (resObj.status >= 500) {
+									counters.increment(COUNTERS.REVALIDATION_FAILURES);
+								}
+								await storeResponse(
+									requestId,
+									route,
+									resObj,
+									clonedRequest as Request,
+								);
 							} catch (ex) {
 								console.log(ex);
+								counters.increment(COUNTERS.REVALIDATION_FAILURES);
 								// On error, it means two things here, either the handler failed,
-								// or the caching failed. Either way, we need to remove the cache
-								// to avoid serving stale data
-								cache.delete(requestId);
+								// or the caching failed. Unless the entry may be served on error,
+								// we need to remove the cache to avoid serving stale data
+								const entry = await cache.get(cacheKey);
+								if (
+									!isServerError(ex) ||
+									!entry ||
+									!isUsableOnError(entry, getFreshnessWindows(entry, route))
+								) {
+									await cache.delete(cacheKey);
+								}
 							} finally {
 								// Release the cloned request
 								clonedRequest = null;
-								bgRequests.delete(requestId);
 							}
-						})();
-
-						const headers = new Headers(data.headers);
-						headers.set("X-Cache", "HIT");
-						data.headers = Array.from(headers.entries());
-					} else {
-						data = undefined;
+						});
 					}
+
+					// Entries without maxAge revalidate on every hit, which is reported as a plain hit
+					data = withCacheHeaders(
+						data,
+						freshness === FRESHNESS.STALE && windows.maxAge !== undefined
+							? "STALE"
+							: "HIT",
+					);
+				} else {
+					data = undefined;
 				}
-				// If there is no cached data, execute the handler
-				if (!data) {
-					const routeData = await r.route.handler(request, r.params);
-					if (workWithCache) {
-						data = await convertToCacheableObject(routeData, [
+			}
+			// The client only accepts a cached response
+			if (!data && requestCacheControl.onlyIfCached) {
+				const timeoutRes = gatewayTimeoutResponse();
+				setCORSHeaders(timeoutRes.headers as Headers, route.cors);
+				return timeoutRes;
+			}
+
+			// If there is no cached data, or the client refused it, execute the handler
+			if (!data) {
+				if (workWithCache) {
+					const fetchAndStore = async () => {
+						const routeData = await callHandler(
+							createUpstreamRequest(request),
+							ctx.params,
+							route,
+						);
+						const resObj = await convertToCacheableObject(routeData, [
 							ENCODINGS.BROTLI,
 						]);
-						data = await cacheResponseObject(requestId, data);
-					} else {
-						data = await convertToCacheableObject(
-							routeData,
-							requestAcceptableEncodings,
+						return {
+							...(await storeResponse(requestId, route, resObj, request)),
+							request,
+						};
+					};
+					try {
+						// Concurrent misses for the same entry share a single handler call
+						const shared = await coalescer.coalesce(
+							cacheKey,
+							fetchAndStore,
+							route.coalesceTimeout,
 						);
+						data = shared.data;
+						// A response of another request is only reused when it was cached, responses that may
+						// not be stored (private, Set-Cookie, uncacheable status...) belong to their client,
+						// and when it does not vary on headers this request sends differently
+						const varyHeaders = getResponseVary(data, route);
+						if (
+							shared.request !== request &&
+							(!shared.stored ||
+								getVariantId(requestId, request, varyHeaders) !==
+									getVariantId(requestId, shared.request, varyHeaders))
+						) {
+							data = (await fetchAndStore()).data;
+						}
+						if (staleEntry && data.status >= 500) {
+							data = serveOnError(
+								staleEntry,
+								`Handler answered ${data.status} for ${request.url}`,
+							);
+						}
+					} catch (ex) {
+						// Serve the previous entry instead of the failure
+						if (!staleEntry || !isServerError(ex)) throw ex;
+						data = serveOnError(staleEntry, ex);
 					}
-				}
-
-				const responseHeaders = new Headers(data.headers);
-				const responseEncoding =
-					responseHeaders.get("content-encoding") || ENCODINGS.IDENTITY;
-				if (!requestAcceptableEncodings.includes(responseEncoding)) {
-					console.log(
-						`Data found in ${responseEncoding} compression but requested in: ${requestAcceptableEncodings.join(
-							",",
-						)}`,
+				} else {
+					const routeData = await route.handler(request, ctx.params, route);
+					// Passed through without being cached, the upstream validators are kept
+					data = await convertToCacheableObject(
+						routeData,
+						requestAcceptableEncodings,
+						{ keepETag: true },
 					);
-					data = await convertCacheableObject(data, requestAcceptableEncodings);
 				}
+			}
+
+			const responseHeaders = new Headers(data.headers);
+			const responseEncoding =
+				responseHeaders.get("content-encoding") || ENCODINGS.IDENTITY;
+			if (
+				!NULL_BODY_STATUSES.includes(data.status) &&
+				!requestAcceptableEncodings.includes(responseEncoding)
+			) {
+				console.log(
+					`Data found in ${responseEncoding} compression but requested in: ${requestAcceptableEncodings.join(
+						",",
+					)}`,
+				);
+				data = await convertCacheableObject(data, requestAcceptableEncodings);
+			}
+
+			if (!hasContent(data)) return notFoundResponse();
+
+			const finalHeaders = new Headers(data.headers) as Headers;
+			finalHeaders.delete(ROUTE_TAG_HEADER);
+			finalHeaders.delete(UPSTREAM_ETAG_HEADER);
+			finalHeaders.delete(UPSTREAM_LAST_MODIFIED_HEADER);
+			if (!finalHeaders.get("x-cache")) {
+				finalHeaders.set("X-Cache", "MISS");
+			}
+			appendRouteVary(finalHeaders, route.vary);
+
+			setCORSHeaders(finalHeaders, route.cors);
+			// Clients already holding the response get a 304 without the content
+			const status =
+				data.status === 200 && isNotModified(request, finalHeaders)
+					? 304
+					: data.status;
+			if (NULL_BODY_STATUSES.includes(status)) {
+				finalHeaders.delete("content-encoding");
+				finalHeaders.delete("content-length");
+				return new Response(null, { status, headers: finalHeaders });
+			}
+			return new Response(data.body, {
+				status: data.status,
+				headers: finalHeaders,
+			});
+		} catch (ex) {
+			const errorRes = errorResponse(ex);
+			setCORSHeaders(errorRes.headers as Headers, route.cors);
+			errorRes.headers.set("X-Cache", "ERROR");
+			return errorRes;
+		}
+	};
 
-				if (!data?.body?.length) return notFoundResponse();
+	/**
+	 * Resolves the route of the request, answering CORS preflights, 404 and 405
+	 * directly, then runs the route's own middleware around `handleRoute`.
+	 */
+	const dispatchRoute = async (ctx: MiddlewareContext): Promise<Response> => {
+		const { request } = ctx;
+		const routes = routesRef.current;
 
-				const finalHeaders = new Headers(data.headers) as Headers;
-				if (!finalHeaders.get("x-cache")) {
-					finalHeaders.set("X-Cache", "MISS");
+		/**
+		 * Answer CORS preflight requests with the policy of the route
+		 * targeted by the preflighted method, or the global policy
+		 */
+		if (request.method === "OPTIONS") {
+			const preflightRoute = findMatchedRoute(
+				request,
+				routes,
+				request.headers.get("access-control-request-method") || "GET",
+			);
+			const cors = preflightRoute?.route.cors;
+			if (cors?.enabled ?? corsConfig.enabled) {
+				const headers = new Headers() as Headers;
+				setCORSHeaders(headers, cors);
+				return new Response(null, { status: 204, headers });
+			}
+		}
+
+		// Find route based on request
+		const r = findMatchedRoute(request, routes);
+		if (!r?.route?.handler) {
+			// The path exists but does not accept this method
+			const allowedMethods = getAllowedMethods(request, routes);
+			if (allowedMethods.length) {
+				// Preflights are answered when a route of the path enables CORS, and the 405 carries
+				// the CORS headers of the most specific one so that browsers can read it
+				const pathRoutes = findPathRoutes(request, routes);
+				if (
+					pathRoutes.some((route) => route.cors?.enabled ?? corsConfig.enabled) &&
+					!allowedMethods.includes("OPTIONS")
+				) {
+					allowedMethods.push("OPTIONS");
 				}
+				return methodNotAllowedResponse(allowedMethods, pathRoutes[0]?.cors);
+			}
+			return notFoundResponse();
+		}
+		ctx.route = r.route;
+		ctx.params = r.params;
+		return composeMiddleware(r.route.middleware ?? [], handleRoute)(ctx);
+	};
 
-				setCORSHeaders(finalHeaders);
-				return new Response(data.body, {
-					status: data.status,
-					headers: finalHeaders,
-				});
+	/**
+	 * Reports the counters, the statistics of the cache store and the additional statistics
+	 * given to `run()` on the status endpoint, when its path is given.
+	 */
+	const statusMiddleware = options?.statusPath
+		? createStatusMiddleware(options.statusPath, async () => ({
+				counters: counters.get(),
+				cache: cache ? await cache.stats() : null,
+				...(await options?.status?.()),
+		  }))
+		: undefined;
+
+	/**
+	 * Favicon and health check requests are answered before any user middleware
+	 * and never reach the cache. Status requests go through the global middleware
+	 * first, so that they can be authenticated.
+	 */
+	const handleRequest = composeMiddleware(
+		[
+			faviconMiddleware,
+			healthcheckMiddleware,
+			...(options?.middleware ?? []),
+			...(statusMiddleware ? [statusMiddleware] : []),
+		],
+		dispatchRoute,
+	);
+
+	/**
+	 * Starts a Bun server with defined hostname and port. The server handles incoming HTTP requests
+	 * and routes them based on the defined route handlers, while also handling CORS and caching.
+	 */
+	const server = Bun.serve({
+    ...(options?.hostname ? { hostname: options.hostname } : {}),
+    ...(options?.port !== undefined ? { port: options.port } : {}),
+		async fetch(request) {
+			try {
+				return await handleRequest({ request, state: {} });
 			} catch (ex) {
+				// Errors thrown by middleware outside of a route
 				const errorRes = errorResponse(ex);
 				setCORSHeaders(errorRes.headers as Headers);
-				errorRes.headers.set("X-Cache", "ERROR");
 				return errorRes;
 			}
 		},
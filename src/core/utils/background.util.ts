@@ -0,0 +1,97 @@
+/**
+ * Background tasks in progress, keyed by the resource they work on. Used to avoid running the same
+ * revalidation twice and to wait for pending work before shutting down. Each server instance has
+ * its own, so that instances with their own store do not skip each other's revalidations.
+ */
+export class BackgroundTasks {
+	private tasks = new Map<string, Promise<void>>();
+
+	/**
+	 * Checks if a background task is in progress for the given key.
+	 *
+	 * @param {string} key - The key of the task, usually a cache key.
+	 * @returns {boolean} True if a task is in progress.
+	 */
+	has(key: string): boolean {
+		return this.tasks.has(key);
+	}
+
+	/**
+	 * Runs a task in the background unless a task with the same key is already in progress. The task
+	 * is expected to handle its own errors; a rejection is logged and otherwise ignored.
+	 *
+	 * @param {string} key - The key of the task, usually a cache key.
+	 * @param {() => Promise<void>} task - The task to run.
+	 * @returns {Promise<void> | undefined} The running task, or undefined if one was already in progress.
+	 */
+	run(key: string, task: () => Promise<void>): Promise<void> | undefined {
+		if (this.tasks.has(key)) return undefined;
+		const promise = task()
+			.catch((ex) => {
+				console.error(`Background task ${key} failed:`, ex);
+			})
+			.finally(() => {
+				this.tasks.delete(key);
+			});
+		this.tasks.set(key, promise);
+		return promise;
+	}
+
+	/**
+	 * Waits for the background tasks in progress to settle, including tasks started while waiting.
+	 *
+	 * @param {number} [timeout=10000] - Maximum time to wait, in milliseconds.
+	 * @returns {Promise<boolean>} True if all tasks settled before the timeout.
+	 */
+	async drain(timeout = 10000): Promise<boolean> {
+		const deadline = Date.now() + timeout;
+		while (this.tasks.size) {
+			const remaining = deadline - Date.now();
+			if (remaining <= 0) return false;
+			let timer: Timer | undefined;
+			await Promise.race([
+				Promise.allSettled(this.tasks.values()),
+				new Promise((resolve) => {
+					timer = setTimeout(resolve, remaining);
+				}),
+			]);
+			clearTimeout(timer);
+		}
+		return true;
+	}
+}
+
+/**
+ * Background tasks of the code running outside of a server instance, e.g. `fetchStale`.
+ */
+export const defaultBackgroundTasks = new BackgroundTasks();
+
+/**
+ * Checks if a default background task is in progress for the given key.
+ *
+ * @param {string} key - The key of the task, usually a cache key.
+ * @returns {boolean} True if a task is in progress.
+ */
+export const hasBackgroundTask = (key: string): boolean => defaultBackgroundTasks.has(key);
+
+/**
+ * Runs a default background task unless a task with the same key is already in progress,
+ * see `BackgroundTasks.run`.
+ *
+ * @param {string} key - The key of the task, usually a cache key.
+ * @param {() => Promise<void>} task - The task to run.
+ * @returns {Promise<void> | undefined} The running task, or undefined if one was already in progress.
+ */
+export const runInBackground = (
+	key: string,
+	task: () => Promise<void>,
+): Promise<void> | undefined => defaultBackgroundTasks.run(key, task);
+
+/**
+ * Waits for the default background tasks in progress to settle, including tasks started while waiting.
+ *
+ * @param {number} [timeout=10000] - Maximum time to wait, in milliseconds.
+ * @returns {Promise<boolean>} True if all tasks settled before the timeout.
+ */
+export const drainBackgroundTasks = (timeout = 10000): Promise<boolean> =>
+	defaultBackgroundTasks.drain(timeout);
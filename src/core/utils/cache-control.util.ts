@@ -0,0 +1,244 @@
+import { getVaryHeaders } from "./vary.util";
+
+/**
+ * Statuses cacheable by default, see RFC 9111 section 4.2.2.
+ */
+export const DEFAULT_CACHEABLE_STATUSES = [200, 203, 204, 301, 404, 410];
+
+/**
+ * Statuses cached with the negative cache TTL by default.
+ */
+export const DEFAULT_NEGATIVE_STATUSES = [404, 410];
+
+/**
+ * Checks if a status is cached with the negative cache TTL of the route.
+ *
+ * @param {number} status - The response status.
+ * @param {RouteCachePolicy} route - The cache settings of the route.
+ * @returns {boolean} True if the route has a negative cache covering the status.
+ */
+export const isNegativeStatus = (
+	status: number,
+	route: RouteCachePolicy,
+): boolean => {
+	if (!route.negativeCache) return false;
+	return (route.negativeCache.statuses ?? DEFAULT_NEGATIVE_STATUSES).includes(status);
+};
+
+/**
+ * Checks if a route caches responses with the given status: the statuses declared cacheable by the
+ * route, or `DEFAULT_CACHEABLE_STATUSES`, plus the statuses of its negative cache.
+ *
+ * @param {number} status - The response status.
+ * @param {RouteCachePolicy} route - The cache settings of the route.
+ * @returns {boolean} True if the status is cacheable.
+ */
+export const isCacheableStatus = (
+	status: number,
+	route: RouteCachePolicy,
+): boolean => {
+	return (
+		(route.cacheableStatuses ?? DEFAULT_CACHEABLE_STATUSES).includes(status) ||
+		isNegativeStatus(status, route)
+	);
+};
+
+/**
+ * Parses a delta-seconds directive value.
+ *
+ * @param {string | undefined} value - The directive value, possibly quoted.
+ * @returns {number | undefined} The number of seconds, or undefined if the value is not a valid delta.
+ */
+const parseDeltaSeconds = (value: string | undefined): number | undefined => {
+	const seconds = Number.parseInt(value?.replace(/"/g, "") ?? "", 10);
+	return Number.isNaN(seconds) || seconds < 0 ? undefined : seconds;
+};
+
+/**
+ * Parses a Cache-Control header. Directive names are case-insensitive, unknown directives are ignored
+ * and the first occurrence of a repeated directive wins.
+ *
+ * @param {string | null} [header] - The Cache-Control header value.
+ * @returns {CacheControl} The parsed directives.
+ *
+ * @example
+ * parseCacheControl('public, max-age=60, stale-while-revalidate=30');
+ * // returns { public: true, maxAge: 60, staleWhileRevalidate: 30, ... }
+ */
+export const parseCacheControl = (header?: string | null): CacheControl => {
+	const directives = new Map<string, string | undefined>();
+	for (const part of (header ?? "").split(",")) {
+		const [name, ...value] = part.split("=");
+		const key = name.trim().toLowerCase();
+		if (key && !directives.has(key)) {
+			directives.set(key, value.length ? value.join("=").trim() : undefined);
+		}
+	}
+	return {
+		noStore: directives.has("no-store"),
+		noCache: directives.has("no-cache"),
+		private: directives.has("private"),
+		public: directives.has("public"),
+		mustRevalidate: directives.has("must-revalidate"),
+		maxAge: parseDeltaSeconds(directives.get("max-age")),
+		sMaxage: parseDeltaSeconds(directives.get("s-maxage")),
+		staleWhileRevalidate: parseDeltaSeconds(
+			directives.get("stale-while-revalidate"),
+		),
+		staleIfError: parseDeltaSeconds(directives.get("stale-if-error")),
+		maxStale: directives.has("max-stale")
+			? parseDeltaSeconds(directives.get("max-stale")) ?? Infinity
+			: undefined,
+		minFresh: parseDeltaSeconds(directives.get("min-fresh")),
+		onlyIfCached: directives.has("only-if-cached"),
+	};
+};
+
+/**
+ * Parses the cache directives of a client request. `Pragma: no-cache` is honored when the request
+ * has no Cache-Control header.
+ *
+ * @param {Request} request - The client request.
+ * @returns {CacheControl} The parsed directives.
+ */
+export const getRequestCacheControl = (request: Request): CacheControl => {
+	const header = request.headers.get("cache-control");
+	if (header === null && /(^|,)\s*no-cache\s*(,|$)/i.test(request.headers.get("pragma") ?? "")) {
+		return parseCacheControl("no-cache");
+	}
+	return parseCacheControl(header);
+};
+
+/**
+ * Checks if a cached entry satisfies the directives of a client request: `no-cache` refuses any
+ * cached entry, `max-age` bounds its age, `min-fresh` requires it to stay fresh for some more
+ * seconds and `max-stale` bounds how long past its freshness it may be. Without `max-stale`, the
+ * staleness allowed by the route applies.
+ *
+ * @param {number | undefined} age - The age of the entry in seconds, undefined if unknown.
+ * @param {FreshnessWindows} windows - The freshness windows of the entry.
+ * @param {CacheControl} requestCacheControl - The directives of the client request.
+ * @returns {boolean} True if the entry may be served to the client.
+ */
+export const satisfiesRequest = (
+	age: number | undefined,
+	windows: FreshnessWindows,
+	requestCacheControl: CacheControl,
+): boolean => {
+	const { noCache, maxAge, minFresh, maxStale } = requestCacheControl;
+	if (noCache) return false;
+	if (maxAge === undefined && minFresh === undefined && maxStale === undefined) {
+		return true;
+	}
+	// An entry of unknown age satisfies no constraint
+	if (age === undefined) return false;
+	if (maxAge !== undefined && age > maxAge) return false;
+	const freshness = (windows.maxAge ?? 0) - age;
+	if (minFresh !== undefined && freshness < minFresh) return false;
+	if (maxStale !== undefined && -freshness > maxStale) return false;
+	return true;
+};
+
+/**
+ * Computes the freshness lifetime a response declares for shared caches: `s-maxage`, then
+ * `max-age`, then `Expires` relative to `Date` (or to the cache date when `Date` is missing, or to
+ * now when the response is not cached yet). An invalid `Expires` means the response is already stale.
+ *
+ * @param {Headers} headers - The response headers.
+ * @param {CacheControl} cacheControl - The parsed Cache-Control header.
+ * @returns {number | undefined} The lifetime in seconds, or undefined if the response declares none.
+ */
+const getDeclaredLifetime = (
+	headers: Headers,
+	cacheControl: CacheControl,
+): number | undefined => {
+	if (cacheControl.sMaxage !== undefined) return cacheControl.sMaxage;
+	if (cacheControl.maxAge !== undefined) return cacheControl.maxAge;
+	const expiresHeader = headers.get("expires");
+	if (expiresHeader === null) return undefined;
+	const expires = Date.parse(expiresHeader);
+	const dateHeader = headers.get("date") ?? headers.get("x-cache-date");
+	const date = dateHeader === null ? Date.now() : Date.parse(dateHeader);
+	if (Number.isNaN(expires) || Number.isNaN(date)) return 0;
+	return Math.max(0, Math.floor((expires - date) / 1000));
+};
+
+/**
+ * Checks if a response may be stored by a shared cache: it must not be marked `no-store` or
+ * `private`, nor set cookies, nor vary on anything (`Vary: *`). With the `honor` mode, a response declaring it is stale right away
+ * and may not be served stale is not stored either, e.g. `max-age=0`.
+ *
+ * @param {ResponseCacheableObject} cacheableObj - The response to store.
+ * @param {UpstreamCacheControlMode} [mode='honor'] - How the route treats upstream directives.
+ * @returns {boolean} True if the response may be stored.
+ */
+export const isStorable = (
+	cacheableObj: ResponseCacheableObject,
+	mode: UpstreamCacheControlMode = "honor",
+): boolean => {
+	if (mode === "ignore") return true;
+	const headers = new Headers(cacheableObj.headers) as Headers;
+	const cacheControl = parseCacheControl(headers.get("cache-control"));
+	if (
+		cacheControl.noStore ||
+		cacheControl.private ||
+		headers.has("set-cookie") ||
+		getVaryHeaders(cacheableObj.headers).includes("*")
+	) {
+		return false;
+	}
+	if (mode === "honor") {
+		const windows = getFreshnessWindows(cacheableObj, { upstreamCacheControl: mode });
+		return windows.maxAge !== 0 || Boolean(windows.staleWhileRevalidate);
+	}
+	return true;
+};
+
+/**
+ * Resolves the freshness windows of a cached entry. Entries covered by the negative cache of the route
+ * are fresh for its TTL and never served stale. Otherwise, with the `honor` mode the windows declared
+ * by the response win over the route's; once a response declares a lifetime, it is only served stale
+ * for as long as it or the route allows. With the `override` and `ignore` modes the route's windows are used.
+ *
+ * @param {ResponseCacheableObject} cacheableObj - The cached entry.
+ * @param {RouteCachePolicy} route - The cache settings of the route.
+ * @returns {FreshnessWindows} The windows of the entry.
+ */
+export const getFreshnessWindows = (
+	cacheableObj: ResponseCacheableObject,
+	route: RouteCachePolicy,
+): FreshnessWindows => {
+	if (route.negativeCache && isNegativeStatus(cacheableObj.status, route)) {
+		return { maxAge: route.negativeCache.maxAge, staleWhileRevalidate: 0 };
+	}
+	const routeWindows = {
+		maxAge: route.maxAge,
+		staleWhileRevalidate: route.staleWhileRevalidate,
+		staleIfError: route.staleIfError,
+	};
+	if ((route.upstreamCacheControl ?? "honor") !== "honor") return routeWindows;
+
+	const headers = new Headers(cacheableObj.headers) as Headers;
+	const cacheControl = parseCacheControl(headers.get("cache-control"));
+	// no-cache requires a revalidation before every use, like a response stale right away
+	const maxAge = cacheControl.noCache ? 0 : getDeclaredLifetime(headers, cacheControl);
+	if (maxAge === undefined) {
+		return {
+			...routeWindows,
+			staleWhileRevalidate:
+				cacheControl.staleWhileRevalidate ?? routeWindows.staleWhileRevalidate,
+			staleIfError: cacheControl.staleIfError ?? routeWindows.staleIfError,
+		};
+	}
+	// must-revalidate and no-cache forbid serving the response once stale
+	const allowStale = !cacheControl.mustRevalidate && !cacheControl.noCache;
+	return {
+		maxAge,
+		staleWhileRevalidate: allowStale
+			? cacheControl.staleWhileRevalidate ?? routeWindows.staleWhileRevalidate ?? 0
+			: 0,
+		staleIfError: allowStale
+			? cacheControl.staleIfError ?? routeWindows.staleIfError
+			: undefined,
+	};
+};
@@ -0,0 +1,207 @@
+import { LRUCache } from "lru-cache";
+
+type LRUCacheOptions = LRUCache.Options<string, ResponseCacheableObject, unknown>;
+
+/**
+ * In-memory cache store evicting the least recently used responses, the default store.
+ */
+export class LRUCacheStore implements CacheStore {
+	readonly lru: LRUCache<string, ResponseCacheableObject>;
+	// Set under memory pressure: new entries are dropped instead of stored
+	refuseWrites = false;
+
+	/**
+	 * @param {LRUCache<string, ResponseCacheableObject> | LRUCacheOptions} cacheOrOptions - An existing
+	 * LRU cache to wrap, or the options of a new one.
+	 */
+	constructor(cacheOrOptions: LRUCache<string, ResponseCacheableObject> | LRUCacheOptions) {
+		this.lru =
+			cacheOrOptions instanceof LRUCache ? cacheOrOptions : new LRUCache(cacheOrOptions);
+	}
+
+	async get(key: string) {
+		return this.lru.get(key);
+	}
+
+	async getEntry(key: string) {
+		const value = this.lru.get(key);
+		if (!value) return undefined;
+		return { value, size: this.lru.info(key)?.size ?? 0 };
+	}
+
+	async set(key: string, value: ResponseCacheableObject) {
+		if (this.refuseWrites && !this.lru.has(key)) return;
+		this.lru.set(key, value);
+	}
+
+	async delete(key: string) {
+		return this.lru.delete(key);
+	}
+
+	async has(key: string) {
+		return this.lru.has(key);
+	}
+
+	async keys() {
+		return Array.from(this.lru.keys());
+	}
+
+	async clear() {
+		this.lru.clear();
+	}
+
+	async stats() {
+		return {
+			entries: this.lru.size,
+			size: this.lru.calculatedSize,
+			maxSize: this.lru.maxSize || undefined,
+		};
+	}
+
+	/**
+	 * Evicts the least recently used entries until the entries fit in the given size.
+	 *
+	 * @param {number} targetSize - The size in bytes to shrink the entries to.
+	 * @returns {number} The number of evicted entries.
+	 */
+	evictTo(targetSize: number): number {
+		let evicted = 0;
+		while (this.lru.size && this.lru.calculatedSize > targetSize) {
+			this.lru.pop();
+			evicted += 1;
+		}
+		return evicted;
+	}
+
+	/**
+	 * Exports the entries, most recently used first, for snapshots.
+	 *
+	 * @returns {[string, LRUCache.Entry<ResponseCacheableObject>][]} The entries with their metadata.
+	 */
+	dump() {
+		return this.lru.dump();
+	}
+
+	/**
+	 * Imports entries exported by `dump`.
+	 *
+	 * @param {[string, LRUCache.Entry<ResponseCacheableObject>][]} data - The entries to import.
+	 */
+	load(data: [string, LRUCache.Entry<ResponseCacheableObject>][]) {
+		this.lru.load(data);
+	}
+}
+
+type TieredCacheStoreOptions = {
+	// Milliseconds the hits of the first tier are batched before the second tier is told, defaults to 1000
+	touchInterval?: number;
+};
+
+/**
+ * Two-tier cache store, typically a small in-memory store in front of a larger persistent one.
+ * Writes go to both tiers, reads missing the first tier fall back to the second and promote the
+ * entry to the first tier. Hits of the first tier are passed on to the second tier in batches, so
+ * that it evicts the entries that are actually least recently used.
+ */
+export class TieredCacheStore implements CacheStore {
+	private touchInterval: number;
+	// Keys read from the first tier since the second tier was last told
+	private pendingTouches = new Set<string>();
+	private touchTimer: Timer | null = null;
+
+	/**
+	 * @param {CacheStore} l1 - The fast tier, e.g. an `LRUCacheStore`.
+	 * @param {CacheStore} l2 - The persistent tier, e.g. a `SqliteCacheStore`.
+	 * @param {TieredCacheStoreOptions} [options] - The batching of the first tier hits.
+	 */
+	constructor(
+		readonly l1: CacheStore,
+		readonly l2: CacheStore,
+		options: TieredCacheStoreOptions = {},
+	) {
+		this.touchInterval = options.touchInterval ?? 1000;
+	}
+
+	async get(key: string) {
+		return (await this.getEntry(key))?.value;
+	}
+
+	async getEntry(key: string) {
+		const entry = await this.l1.getEntry(key);
+		if (entry) {
+			this.scheduleTouch(key);
+			return entry;
+		}
+		const l2Entry = await this.l2.getEntry(key);
+		if (l2Entry) {
+			await this.l1.set(key, l2Entry.value);
+		}
+		return l2Entry;
+	}
+
+	async set(key: string, value: ResponseCacheableObject) {
+		await Promise.all([this.l1.set(key, value), this.l2.set(key, value)]);
+	}
+
+	async delete(key: string) {
+		const [l1Deleted, l2Deleted] = await Promise.all([
+			this.l1.delete(key),
+			this.l2.delete(key),
+		]);
+		return l1Deleted || l2Deleted;
+	}
+
+	async has(key: string) {
+		return (await this.l1.has(key)) || this.l2.has(key);
+	}
+
+	async keys() {
+		const [l1Keys, l2Keys] = await Promise.all([this.l1.keys(), this.l2.keys()]);
+		return Array.from(new Set([...l1Keys, ...l2Keys]));
+	}
+
+	async clear() {
+		await Promise.all([this.l1.clear(), this.l2.clear()]);
+	}
+
+	/**
+	 * Statistics of the second tier, which holds the entries of both tiers unless it evicted some.
+	 */
+	async stats() {
+		return this.l2.stats();
+	}
+
+	/**
+	 * Records a hit of the first tier, passed on to the second tier with the next batch.
+	 *
+	 * @param {string} key - The key of the entry.
+	 */
+	private scheduleTouch(key: string) {
+		if (!this.l2.touch) return;
+		this.pendingTouches.add(key);
+		if (this.touchTimer) return;
+		this.touchTimer = setTimeout(async () => {
+			try {
+				await this.flushTouches();
+			} catch (ex) {
+				console.error("Error while marking the cache entries as recently used:", ex);
+			}
+		}, this.touchInterval);
+		// Pending hits should not keep the process alive
+		this.touchTimer.unref();
+	}
+
+	/**
+	 * Passes the pending hits of the first tier on to the second tier, e.g. before closing it.
+	 */
+	async flushTouches() {
+		if (this.touchTimer) {
+			clearTimeout(this.touchTimer);
+			this.touchTimer = null;
+		}
+		if (!this.pendingTouches.size) return;
+		const keys = Array.from(this.pendingTouches);
+		this.pendingTouches.clear();
+		await this.l2.touch?.(keys);
+	}
+}
@@ -1,5 +1,5 @@
 // cacheManager.js
-import { LRUCache } from "lru-cache";
+import { LRUCacheStore } from "./cache-store.util";
 import { serializeToFile, deserializeFromFile } from "./storage.util";
 import path from "path";
 import os from "os";
@@ -9,12 +9,19 @@ interface CacheOptions {
 	maxSize: number;
 	sizeCalculation: (obj: ResponseCacheableObject) => number;
 	allowStale: boolean;
+	// Snapshot file loaded at startup and written by dumpCache, defaults to <tmpdir>/cache.bin
+	snapshotPath?: string;
+	// Whether the snapshot is loaded at startup, defaults to true
+	loadSnapshot?: boolean;
 }
 
 export class CacheManager {
 	private static instance: CacheManager | null = null;
-	private cache: LRUCache<string, ResponseCacheableObject>;
+	private cache: LRUCacheStore;
 	private filePath: string;
+	private snapshotTimer: Timer | null = null;
+	// Last snapshot write, so that writes of this process never overlap
+	private pendingDump: Promise<void> = Promise.resolve();
 
 	static async initInstance(options: CacheOptions) {
 		if (CacheManager.instance) {
@@ -22,7 +29,9 @@ export class CacheManager {
 			return;
 		}
 		CacheManager.instance = new CacheManager(options);
-		await CacheManager.instance.loadCache();
+		if (options.loadSnapshot !== false) {
+			await CacheManager.instance.loadCache();
+		}
 		return CacheManager.instance;
 	}
 
@@ -31,6 +40,15 @@ export class CacheManager {
 		CacheManager.instance = null;
 	}
 
+	static getInstance() {
+		if (!CacheManager.instance) {
+			throw new Error(
+				"CacheManager instance not initiated. Use CacheManager.initInstance(options: CacheOptions)",
+			);
+		}
+		return CacheManager.instance;
+	}
+
 	static getCacheInstance() {
 		if (!CacheManager.instance) {
 			throw new Error(
@@ -47,29 +65,81 @@ export class CacheManager {
 			);
 		}
 
-		this.cache = new LRUCache(options);
-		this.filePath = path.join(os.tmpdir(), "cache.bin");
+		const { snapshotPath, loadSnapshot, ...cacheOptions } = options;
+		this.cache = new LRUCacheStore(cacheOptions);
+		this.filePath = snapshotPath || path.join(os.tmpdir(), "cache.bin");
+	}
+
+	getSnapshotPath() {
+		return this.filePath;
 	}
 
 	async loadCache() {
+		if (!(await Bun.file(this.filePath).exists())) {
+			console.log("Cache not found. Starting with empty cache.");
+			return;
+		}
 		try {
 			const data = await deserializeFromFile(this.filePath);
 			if (data.length) {
 				this.cache.load(data);
 			}
 		} catch (ex) {
-			console.log("Cache not found. Starting with empty cache.");
+			console.error(
+				`Cache snapshot ${this.filePath} could not be loaded. Starting with empty cache.`,
+				ex,
+			);
 		}
 	}
 
+	/**
+	 * Writes the cache to the snapshot file. Writes of this process are queued, writes of other
+	 * processes sharing the snapshot path are prevented by a lock file.
+	 *
+	 * @throws {FileLockError} Throws an error if another process is writing the snapshot.
+	 */
 	async dumpCache() {
-		const dump = this.cache.dump();
-		if (dump.length) {
-			await serializeToFile(dump, this.filePath);
+		const dump = async () => {
+			const data = this.cache.dump();
+			if (data.length) {
+				await serializeToFile(data, this.filePath);
+			}
+		};
+		const result = this.pendingDump.then(dump);
+		this.pendingDump = result.catch(() => undefined);
+		return result;
+	}
+
+	/**
+	 * Dumps the cache periodically, so that a crash loses at most one interval of cache.
+	 *
+	 * @param {number} intervalMs - Time between two snapshots, in milliseconds.
+	 */
+	startSnapshots(intervalMs: number) {
+		this.stopSnapshots();
+		this.snapshotTimer = setInterval(async () => {
+			try {
+				await this.dumpCache();
+			} catch (ex) {
+				console.error("Error while writing the cache snapshot:", ex);
+			}
+		}, intervalMs);
+		// Periodic snapshots should not keep the process alive
+		this.snapshotTimer.unref();
+	}
+
+	/**
+	 * Stops the periodic snapshots started with `startSnapshots`.
+	 */
+	stopSnapshots() {
+		if (this.snapshotTimer) {
+			clearInterval(this.snapshotTimer);
+			this.snapshotTimer = null;
 		}
 	}
 }
 
 // Export the getInstance method
+export const getCacheManager = CacheManager.getInstance;
 export const getCacheInstance = CacheManager.getCacheInstance;
 export const initCacheInstance = CacheManager.initInstance;
@@ -0,0 +1,85 @@
+/**
+ * Default time concurrent callers wait for a shared call before making their own, in milliseconds.
+ */
+export const DEFAULT_COALESCE_TIMEOUT = 5000;
+
+/**
+ * Calls in progress, keyed by the resource they produce. Each server instance has its own, so that
+ * instances with their own store and handlers never share a call.
+ */
+export class Coalescer {
+	private inFlight = new Map<string, Promise<unknown>>();
+
+	/**
+	 * Checks if a call is in progress for the given key.
+	 *
+	 * @param {string} key - The key of the call, usually a cache key.
+	 * @returns {boolean} True if a call is in progress.
+	 */
+	isInFlight(key: string): boolean {
+		return this.inFlight.has(key);
+	}
+
+	/**
+	 * Coalesces concurrent calls for the same key into a single call (single-flight). The first caller
+	 * runs the task, callers arriving while it is in progress await its result, or its error. A waiter
+	 * that is still waiting after `timeout` milliseconds gives up and runs the task itself.
+	 *
+	 * @param {string} key - The key of the call, usually a cache key.
+	 * @param {() => Promise<T>} task - The call to make.
+	 * @param {number} [timeout=DEFAULT_COALESCE_TIMEOUT] - Maximum wait for a shared call, 0 disables coalescing.
+	 * @returns {Promise<T>} The result of the shared call, or of the caller's own call.
+	 * @template T - The type of the result.
+	 */
+	async coalesce<T>(
+		key: string,
+		task: () => Promise<T>,
+		timeout = DEFAULT_COALESCE_TIMEOUT,
+	): Promise<T> {
+		if (timeout <= 0) return task();
+
+		const shared = this.inFlight.get(key) as Promise<T> | undefined;
+		if (shared) {
+			const timedOut = Symbol("timedOut");
+			let timer: Timer | undefined;
+			const result = await Promise.race([
+				shared,
+				new Promise<typeof timedOut>((resolve) => {
+					timer = setTimeout(() => resolve(timedOut), timeout);
+				}),
+			]).finally(() => clearTimeout(timer));
+			return result === timedOut ? task() : (result as T);
+		}
+
+		const promise = task().finally(() => {
+			this.inFlight.delete(key);
+		});
+		this.inFlight.set(key, promise);
+		return promise;
+	}
+}
+
+const defaultCoalescer = new Coalescer();
+
+/**
+ * Checks if a call coalesced with `coalesce` is in progress for the given key.
+ *
+ * @param {string} key - The key of the call, usually a cache key.
+ * @returns {boolean} True if a call is in progress.
+ */
+export const isInFlight = (key: string): boolean => defaultCoalescer.isInFlight(key);
+
+/**
+ * Coalesces concurrent calls for the same key into a single call, see `Coalescer.coalesce`.
+ *
+ * @param {string} key - The key of the call, usually a cache key.
+ * @param {() => Promise<T>} task - The call to make.
+ * @param {number} [timeout=DEFAULT_COALESCE_TIMEOUT] - Maximum wait for a shared call, 0 disables coalescing.
+ * @returns {Promise<T>} The result of the shared call, or of the caller's own call.
+ * @template T - The type of the result.
+ */
+export const coalesce = <T>(
+	key: string,
+	task: () => Promise<T>,
+	timeout = DEFAULT_COALESCE_TIMEOUT,
+): Promise<T> => defaultCoalescer.coalesce(key, task, timeout);
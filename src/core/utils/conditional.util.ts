@@ -0,0 +1,132 @@
+import { hash } from "./hash.util";
+
+/**
+ * Headers keeping the validators of the upstream response a cached entry was built from, the
+ * entry's own `ETag` being computed by the cache.
+ */
+export const UPSTREAM_ETAG_HEADER = "x-cache-upstream-etag";
+export const UPSTREAM_LAST_MODIFIED_HEADER = "x-cache-upstream-last-modified";
+
+/**
+ * Conditional request headers, see RFC 9110 section 13.1.
+ */
+const CONDITIONAL_HEADERS = [
+	"if-match",
+	"if-none-match",
+	"if-modified-since",
+	"if-unmodified-since",
+	"if-range",
+];
+
+/**
+ * Generates a strong entity tag for the identity content of a response.
+ *
+ * @param {string} body - The uncompressed content.
+ * @returns {string} The quoted entity tag.
+ */
+export const generateETag = (body: string): string => `"${hash(body)}"`;
+
+/**
+ * Strips the weakness indicator of an entity tag, for the weak comparison If-None-Match relies on.
+ *
+ * @param {string} etag - The entity tag.
+ * @returns {string} The opaque tag.
+ */
+const toOpaqueTag = (etag: string): string => etag.trim().replace(/^W\//, "");
+
+/**
+ * Evaluates the conditional headers of a request against the validators of a response, see
+ * RFC 9110 section 13.2.2. If-None-Match takes precedence over If-Modified-Since, which is only
+ * compared to Last-Modified when the former is absent. Only GET and HEAD requests are evaluated.
+ *
+ * @param {Request} request - The request carrying the conditional headers.
+ * @param {Headers} headers - The headers of the selected response.
+ * @returns {boolean} True if the client already has the response, which can be answered with a 304.
+ */
+export const isNotModified = (request: Request, headers: Headers): boolean => {
+	if (!["GET", "HEAD"].includes(request.method.toUpperCase())) return false;
+
+	const ifNoneMatch = request.headers.get("if-none-match");
+	if (ifNoneMatch) {
+		const etag = headers.get("etag");
+		if (ifNoneMatch.trim() === "*") return true;
+		if (!etag) return false;
+		const opaqueTag = toOpaqueTag(etag);
+		return ifNoneMatch.split(",").some((tag) => toOpaqueTag(tag) === opaqueTag);
+	}
+
+	const ifModifiedSince = Date.parse(request.headers.get("if-modified-since") ?? "");
+	const lastModified = Date.parse(headers.get("last-modified") ?? "");
+	if (Number.isNaN(ifModifiedSince) || Number.isNaN(lastModified)) return false;
+	return lastModified <= ifModifiedSince;
+};
+
+/**
+ * Prepares the request passed to the handler of a cached route. The conditional headers of the client
+ * refer to the validators of the cache, not of the upstream, so they are removed. When a cached entry is
+ * revalidated, its upstream validators are sent instead, so that an unchanged upstream can answer 304.
+ * A HEAD request is sent as a GET, as the response is cached and shared with GET requests.
+ *
+ * @param {Request} request - The client request.
+ * @param {ResponseCacheableObject} [entry] - The cached entry being revalidated.
+ * @returns {Request} The request for the handler, the client request itself when unchanged.
+ */
+export const createUpstreamRequest = (
+	request: Request,
+	entry?: ResponseCacheableObject,
+): Request => {
+	const entryHeaders = new Headers(entry?.headers ?? []);
+	const etag = entryHeaders.get(UPSTREAM_ETAG_HEADER);
+	const lastModified = entryHeaders.get(UPSTREAM_LAST_MODIFIED_HEADER);
+	const isHead = request.method.toUpperCase() === "HEAD";
+	if (
+		!isHead &&
+		!etag &&
+		!lastModified &&
+		!CONDITIONAL_HEADERS.some((name) => request.headers.has(name))
+	) {
+		return request;
+	}
+
+	const headers = new Headers(request.headers);
+	for (const name of CONDITIONAL_HEADERS) {
+		headers.delete(name);
+	}
+	if (etag) headers.set("if-none-match", etag);
+	if (lastModified) headers.set("if-modified-since", lastModified);
+	// Bun keeps the original headers when a Request is given to the constructor
+	return new Request(request.url, {
+		method: isHead ? "GET" : request.method,
+		headers,
+		signal: request.signal,
+		...(["GET", "HEAD"].includes(request.method.toUpperCase())
+			? {}
+			: { body: request.body }),
+	});
+};
+
+/**
+ * Refreshes a cached entry with the headers of a 304 response to its revalidation, keeping its
+ * content: content headers are left untouched and new upstream validators are recorded.
+ *
+ * @param {ResponseCacheableObject} cacheableObj - The cached entry.
+ * @param {Headers} notModifiedHeaders - The headers of the 304 response.
+ * @returns {ResponseCacheableObject} A copy of the entry with the refreshed headers.
+ */
+export const refreshCacheableObject = (
+	cacheableObj: ResponseCacheableObject,
+	notModifiedHeaders: Headers,
+): ResponseCacheableObject => {
+	const headers = new Headers(cacheableObj.headers);
+	notModifiedHeaders.forEach((value, name) => {
+		if (name === "etag") {
+			headers.set(UPSTREAM_ETAG_HEADER, value);
+		} else if (name === "last-modified") {
+			headers.set(UPSTREAM_LAST_MODIFIED_HEADER, value);
+			headers.set(name, value);
+		} else if (!name.startsWith("content-") && name !== "set-cookie") {
+			headers.set(name, value);
+		}
+	});
+	return { ...cacheableObj, headers: Array.from(headers.entries()) };
+};
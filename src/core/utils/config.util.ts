@@ -0,0 +1,603 @@
+import path from "path";
+import { ConfigError } from "./error.util";
+import { proxyRoute } from "./proxy.util";
+
+/**
+ * Configuration files looked up in the working directory, in order of preference.
+ */
+export const CONFIG_FILES = ["bunblaze.config.ts", "bunblaze.config.json"];
+
+/**
+ * Kinds of cache store, see `cache.store`.
+ */
+export const CACHE_STORE_KINDS: readonly CacheStoreKind[] = ["memory", "sqlite", "tiered"];
+
+type ConfigObject = { [key: string]: unknown };
+
+/**
+ * Describes a received value for error messages.
+ *
+ * @param {unknown} value - The invalid value.
+ * @returns {string} A short description of the value.
+ */
+const describe = (value: unknown): string => {
+	if (Array.isArray(value)) return "an array";
+	if (value === null) return "null";
+	if (typeof value === "object") return "an object";
+	return JSON.stringify(value);
+};
+
+/**
+ * Asserts that a value is a plain object without unknown keys.
+ *
+ * @param {unknown} value - The value to check.
+ * @param {string} key - Path of the value in the configuration.
+ * @param {string[]} allowedKeys - Keys the object may contain.
+ * @returns {ConfigObject} The value as an object.
+ * @throws {ConfigError} Throws an error if the value is not an object or has unknown keys.
+ */
+const expectObject = (
+	value: unknown,
+	key: string,
+	allowedKeys: string[],
+): ConfigObject => {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		throw new ConfigError(`expected an object, received ${describe(value)}`, key);
+	}
+	for (const childKey of Object.keys(value)) {
+		if (!allowedKeys.includes(childKey)) {
+			throw new ConfigError(
+				`unknown key, expected one of: ${allowedKeys.join(", ")}`,
+				key ? `${key}.${childKey}` : childKey,
+			);
+		}
+	}
+	return value as ConfigObject;
+};
+
+const expectString = (value: unknown, key: string): string => {
+	if (typeof value !== "string" || !value.trim()) {
+		throw new ConfigError(
+			`expected a non-empty string, received ${describe(value)}`,
+			key,
+		);
+	}
+	return value;
+};
+
+const expectPath = (value: unknown, key: string): string => {
+	const path = expectString(value, key);
+	if (!path.startsWith("/")) {
+		throw new ConfigError(
+			`expected a path starting with "/", received ${describe(path)}`,
+			key,
+		);
+	}
+	return path;
+};
+
+const expectBoolean = (value: unknown, key: string): boolean => {
+	if (typeof value !== "boolean") {
+		throw new ConfigError(`expected a boolean, received ${describe(value)}`, key);
+	}
+	return value;
+};
+
+const expectNumber = (
+	value: unknown,
+	key: string,
+	{ min = -Infinity, max = Infinity, integer = false, exclusiveMin = false } = {},
+): number => {
+	if (
+		typeof value !== "number" ||
+		Number.isNaN(value) ||
+		(integer && !Number.isInteger(value)) ||
+		value < min ||
+		(exclusiveMin && value === min) ||
+		value > max
+	) {
+		const kind = integer ? "an integer" : "a number";
+		const bounds = [
+			Number.isFinite(min) ? `${exclusiveMin ? ">" : ">="} ${min}` : "",
+			Number.isFinite(max) ? `<= ${max}` : "",
+		]
+			.filter(Boolean)
+			.join(" and ");
+		throw new ConfigError(
+			`expected ${kind}${bounds ? ` ${bounds}` : ""}, received ${describe(value)}`,
+			key,
+		);
+	}
+	return value;
+};
+
+const expectOneOf = <T extends string>(
+	value: unknown,
+	key: string,
+	allowedValues: readonly T[],
+): T => {
+	if (!allowedValues.includes(value as T)) {
+		throw new ConfigError(
+			`expected one of: ${allowedValues.join(", ")}, received ${describe(value)}`,
+			key,
+		);
+	}
+	return value as T;
+};
+
+const expectUrl = (value: unknown, key: string): string => {
+	const url = expectString(value, key);
+	let isValid = /^https?:\/\//i.test(url);
+	try {
+		new URL(url);
+	} catch {
+		isValid = false;
+	}
+	if (!isValid) {
+		throw new ConfigError(
+			`expected an absolute http(s) URL, received ${describe(value)}`,
+			key,
+		);
+	}
+	return url;
+};
+
+const expectMethods = (value: unknown, key: string): string | string[] => {
+	if (Array.isArray(value)) {
+		return value.map((method, index) => expectString(method, `${key}[${index}]`));
+	}
+	return expectString(value, key);
+};
+
+const expectHeaders = (value: unknown, key: string) => {
+	const headers = expectObject(value, key, Object.keys(value ?? {}));
+	for (const [name, headerValue] of Object.entries(headers)) {
+		expectString(headerValue, `${key}.${name}`);
+	}
+	return headers as { [name: string]: string };
+};
+
+const expectStatuses = (value: unknown, key: string): number[] => {
+	if (!Array.isArray(value)) {
+		throw new ConfigError(`expected an array, received ${describe(value)}`, key);
+	}
+	return value.map((status, index) =>
+		expectNumber(status, `${key}[${index}]`, { min: 100, max: 599, integer: true }),
+	);
+};
+
+const validateNegativeCache = (
+	value: unknown,
+	key: string,
+): NegativeCacheOptions => {
+	const negativeCache = expectObject(value, key, ["maxAge", "statuses"]);
+	return {
+		maxAge: expectNumber(negativeCache.maxAge, `${key}.maxAge`, { min: 0 }),
+		...(negativeCache.statuses !== undefined
+			? { statuses: expectStatuses(negativeCache.statuses, `${key}.statuses`) }
+			: {}),
+	};
+};
+
+const expectStrings = (value: unknown, key: string): string[] => {
+	if (!Array.isArray(value)) {
+		throw new ConfigError(`expected an array, received ${describe(value)}`, key);
+	}
+	return value.map((item, index) => expectString(item, `${key}[${index}]`));
+};
+
+const validateVary = (value: unknown, key: string): RouteVary => {
+	const vary = expectObject(value, key, ["headers", "cookies", "query"]);
+	return {
+		...(vary.headers !== undefined
+			? { headers: expectStrings(vary.headers, `${key}.headers`) }
+			: {}),
+		...(vary.cookies !== undefined
+			? { cookies: expectStrings(vary.cookies, `${key}.cookies`) }
+			: {}),
+		...(vary.query !== undefined
+			? { query: expectStrings(vary.query, `${key}.query`) }
+			: {}),
+	};
+};
+
+const validateNormalize = (value: unknown, key: string): CacheKeyNormalization => {
+	const normalize = expectObject(value, key, [
+		"ignoreQuery",
+		"allowQuery",
+		"stripTracking",
+		"trailingSlash",
+		"lowercase",
+		"dropEmpty",
+	]);
+	const result: CacheKeyNormalization = {};
+	for (const listKey of ["ignoreQuery", "allowQuery"] as const) {
+		if (normalize[listKey] !== undefined) {
+			result[listKey] = expectStrings(normalize[listKey], `${key}.${listKey}`);
+		}
+	}
+	for (const flagKey of [
+		"stripTracking",
+		"trailingSlash",
+		"lowercase",
+		"dropEmpty",
+	] as const) {
+		if (normalize[flagKey] !== undefined) {
+			result[flagKey] = expectBoolean(normalize[flagKey], `${key}.${flagKey}`);
+		}
+	}
+	return result;
+};
+
+/**
+ * Validates a single proxy route of the configuration.
+ *
+ * @param {unknown} value - The route to validate.
+ * @param {string} key - Path of the route in the configuration.
+ * @returns {ConfigRoute} The validated route.
+ */
+const validateRoute = (value: unknown, key: string): ConfigRoute => {
+	const route = expectObject(value, key, [
+		"path",
+		"upstream",
+		"cache",
+		"maxAge",
+		"staleWhileRevalidate",
+		"staleIfError",
+		"cacheableStatuses",
+		"negativeCache",
+		"upstreamCacheControl",
+		"clientCacheControl",
+		"coalesceTimeout",
+		"vary",
+		"normalize",
+		"headers",
+		"method",
+		"hostname",
+	]);
+	return {
+		path: expectPath(route.path, `${key}.path`),
+		upstream: expectUrl(route.upstream, `${key}.upstream`),
+		...(route.cache !== undefined
+			? { cache: expectBoolean(route.cache, `${key}.cache`) }
+			: {}),
+		...(route.maxAge !== undefined
+			? { maxAge: expectNumber(route.maxAge, `${key}.maxAge`, { min: 0 }) }
+			: {}),
+		...(route.staleWhileRevalidate !== undefined
+			? {
+					staleWhileRevalidate: expectNumber(
+						route.staleWhileRevalidate,
+						`${key}.staleWhileRevalidate`,
+						{ min: 0 },
+					),
+			  }
+			: {}),
+		...(route.staleIfError !== undefined
+			? {
+					staleIfError: expectNumber(route.staleIfError, `${key}.staleIfError`, {
+						min: 0,
+					}),
+			  }
+			: {}),
+		...(route.cacheableStatuses !== undefined
+			? {
+					cacheableStatuses: expectStatuses(
+						route.cacheableStatuses,
+						`${key}.cacheableStatuses`,
+					),
+			  }
+			: {}),
+		...(route.negativeCache !== undefined
+			? {
+					negativeCache: validateNegativeCache(
+						route.negativeCache,
+						`${key}.negativeCache`,
+					),
+			  }
+			: {}),
+		...(route.upstreamCacheControl !== undefined
+			? {
+					upstreamCacheControl: expectOneOf(
+						route.upstreamCacheControl,
+						`${key}.upstreamCacheControl`,
+						["honor", "override", "ignore"] as const,
+					),
+			  }
+			: {}),
+		...(route.clientCacheControl !== undefined
+			? {
+					clientCacheControl: expectBoolean(
+						route.clientCacheControl,
+						`${key}.clientCacheControl`,
+					),
+			  }
+			: {}),
+		...(route.coalesceTimeout !== undefined
+			? {
+					coalesceTimeout: expectNumber(
+						route.coalesceTimeout,
+						`${key}.coalesceTimeout`,
+						{ min: 0, integer: true },
+					),
+			  }
+			: {}),
+		...(route.vary !== undefined
+			? { vary: validateVary(route.vary, `${key}.vary`) }
+			: {}),
+		...(route.normalize !== undefined
+			? { normalize: validateNormalize(route.normalize, `${key}.normalize`) }
+			: {}),
+		...(route.headers !== undefined
+			? { headers: expectHeaders(route.headers, `${key}.headers`) }
+			: {}),
+		...(route.method !== undefined
+			? { method: expectMethods(route.method, `${key}.method`) }
+			: {}),
+		...(route.hostname !== undefined
+			? { hostname: expectString(route.hostname, `${key}.hostname`) }
+			: {}),
+	};
+};
+
+/**
+ * Validates a raw configuration object, as read from a configuration file. Unknown keys are
+ * rejected so that typos do not silently fall back to defaults.
+ *
+ * @param {unknown} raw - The raw configuration.
+ * @returns {BunBlazeConfig} The validated configuration.
+ * @throws {ConfigError} Throws an error pointing to the first offending key.
+ */
+export const validateConfig = (raw: unknown): BunBlazeConfig => {
+	const config = expectObject(raw, "", ["server", "cache", "cors", "routes"]);
+	const result: BunBlazeConfig = {};
+
+	if (config.server !== undefined) {
+		const server = expectObject(config.server, "server", ["hostname", "port", "statusPath"]);
+		result.server = {
+			...(server.hostname !== undefined
+				? { hostname: expectString(server.hostname, "server.hostname") }
+				: {}),
+			...(server.port !== undefined
+				? {
+						port: expectNumber(server.port, "server.port", {
+							min: 1,
+							max: 65535,
+							integer: true,
+						}),
+				  }
+				: {}),
+			...(server.statusPath !== undefined
+				? { statusPath: expectPath(server.statusPath, "server.statusPath") }
+				: {}),
+		};
+	}
+
+	if (config.cache !== undefined) {
+		const cache = expectObject(config.cache, "cache", [
+			"size",
+			"memoryPercentage",
+			"minSize",
+			"maxSize",
+			"highWaterMark",
+			"lowWaterMark",
+			"watchdogInterval",
+			"snapshotInterval",
+			"snapshotPath",
+			"store",
+			"sqlitePath",
+			"sqliteMaxSize",
+		]);
+		result.cache = {
+			...(cache.size !== undefined
+				? {
+						size: expectNumber(cache.size, "cache.size", {
+							min: 1,
+							integer: true,
+						}),
+				  }
+				: {}),
+			...(cache.memoryPercentage !== undefined
+				? {
+						memoryPercentage: expectNumber(
+							cache.memoryPercentage,
+							"cache.memoryPercentage",
+							{ min: 0, max: 1, exclusiveMin: true },
+						),
+				  }
+				: {}),
+			...(cache.minSize !== undefined
+				? {
+						minSize: expectNumber(cache.minSize, "cache.minSize", {
+							min: 1,
+							integer: true,
+						}),
+				  }
+				: {}),
+			...(cache.maxSize !== undefined
+				? {
+						maxSize: expectNumber(cache.maxSize, "cache.maxSize", {
+							min: typeof cache.minSize === "number" ? cache.minSize : 1,
+							integer: true,
+						}),
+				  }
+				: {}),
+			...(cache.highWaterMark !== undefined
+				? {
+						highWaterMark: expectNumber(cache.highWaterMark, "cache.highWaterMark", {
+							min: 0,
+							max: 1,
+						}),
+				  }
+				: {}),
+			...(cache.lowWaterMark !== undefined
+				? {
+						lowWaterMark: expectNumber(cache.lowWaterMark, "cache.lowWaterMark", {
+							min: 0,
+							max: typeof cache.highWaterMark === "number" ? cache.highWaterMark : 1,
+						}),
+				  }
+				: {}),
+			...(cache.watchdogInterval !== undefined
+				? {
+						watchdogInterval: expectNumber(cache.watchdogInterval, "cache.watchdogInterval", {
+							min: 0,
+						}),
+				  }
+				: {}),
+			...(cache.snapshotInterval !== undefined
+				? {
+						snapshotInterval: expectNumber(
+							cache.snapshotInterval,
+							"cache.snapshotInterval",
+							{ min: 0 },
+						),
+				  }
+				: {}),
+			...(cache.snapshotPath !== undefined
+				? { snapshotPath: expectString(cache.snapshotPath, "cache.snapshotPath") }
+				: {}),
+			...(cache.store !== undefined
+				? {
+						store: expectOneOf(cache.store, "cache.store", CACHE_STORE_KINDS),
+				  }
+				: {}),
+			...(cache.sqlitePath !== undefined
+				? { sqlitePath: expectString(cache.sqlitePath, "cache.sqlitePath") }
+				: {}),
+			...(cache.sqliteMaxSize !== undefined
+				? {
+						sqliteMaxSize: expectNumber(cache.sqliteMaxSize, "cache.sqliteMaxSize", {
+							min: 1,
+							integer: true,
+						}),
+				  }
+				: {}),
+		};
+	}
+
+	if (config.cors !== undefined) {
+		const cors = expectObject(config.cors, "cors", [
+			"enabled",
+			"allowOrigin",
+			"allowMethods",
+			"allowHeaders",
+			"allowCredentials",
+		]);
+		result.cors = {};
+		if (cors.enabled !== undefined) {
+			result.cors.enabled = expectBoolean(cors.enabled, "cors.enabled");
+		}
+		for (const corsKey of [
+			"allowOrigin",
+			"allowMethods",
+			"allowHeaders",
+			"allowCredentials",
+		] as const) {
+			if (cors[corsKey] !== undefined) {
+				result.cors[corsKey] = expectString(cors[corsKey], `cors.${corsKey}`);
+			}
+		}
+	}
+
+	if (config.routes !== undefined) {
+		if (!Array.isArray(config.routes)) {
+			throw new ConfigError(
+				`expected an array, received ${describe(config.routes)}`,
+				"routes",
+			);
+		}
+		result.routes = config.routes.map((route, index) =>
+			validateRoute(route, `routes[${index}]`),
+		);
+	}
+
+	return result;
+};
+
+/**
+ * Finds the configuration file to load: the given path, the `BUNBLAZE_CONFIG` environment
+ * variable, or the first of `CONFIG_FILES` present in the working directory.
+ *
+ * @param {string} [filePath] - Explicit path of the configuration file.
+ * @returns {Promise<string | undefined>} The absolute path of the file, or undefined if there is none.
+ */
+export const findConfigFile = async (
+	filePath = process.env.BUNBLAZE_CONFIG,
+): Promise<string | undefined> => {
+	if (filePath) {
+		return path.resolve(filePath);
+	}
+	for (const file of CONFIG_FILES) {
+		const candidate = path.resolve(file);
+		if (await Bun.file(candidate).exists()) {
+			return candidate;
+		}
+	}
+	return undefined;
+};
+
+/**
+ * Loads and validates the configuration file. `.json` files are parsed, other files are imported
+ * and must default-export the configuration object.
+ *
+ * @param {string} [filePath] - Explicit path of the configuration file.
+ * @returns {Promise<BunBlazeConfig | undefined>} The configuration, or undefined if there is no configuration file.
+ * @throws {ConfigError} Throws an error if the file cannot be read or is invalid.
+ */
+export const loadConfig = async (
+	filePath?: string,
+): Promise<BunBlazeConfig | undefined> => {
+	const configFile = await findConfigFile(filePath);
+	if (!configFile) return undefined;
+
+	const file = Bun.file(configFile);
+	if (!(await file.exists())) {
+		throw new ConfigError(`file not found: ${configFile}`);
+	}
+
+	let raw: unknown;
+	try {
+		if (configFile.endsWith(".json")) {
+			raw = JSON.parse(await file.text());
+		} else {
+			// Drop the module from the cache so that a reload reads the file again
+			delete require.cache[configFile];
+			raw = (await import(configFile)).default;
+		}
+	} catch (ex) {
+		throw new ConfigError(
+			`cannot read ${configFile}: ${ex instanceof Error ? ex.message : ex}`,
+		);
+	}
+	return validateConfig(raw);
+};
+
+/**
+ * Converts the proxy routes of a configuration into routes.
+ *
+ * @param {BunBlazeConfig} [config] - The configuration.
+ * @returns {Route[]} The proxy routes.
+ */
+export const getConfigRoutes = (config?: BunBlazeConfig): Route[] => {
+	return (config?.routes ?? []).map(({ path, upstream, ...options }) =>
+		proxyRoute(path, upstream, options),
+	);
+};
+
+/**
+ * Reads the kind of cache store, the CACHE_STORE environment variable taking precedence over the
+ * configuration file, "memory" by default.
+ *
+ * @param {BunBlazeConfig} [config] - The configuration.
+ * @param {string} [env] - The value of CACHE_STORE.
+ * @returns {CacheStoreKind} The kind of cache store.
+ * @throws {ConfigError} Throws an error if CACHE_STORE names an unknown kind of store.
+ */
+export const getCacheStoreKind = (
+	config?: BunBlazeConfig,
+	env = process.env.CACHE_STORE,
+): CacheStoreKind =>
+	env
+		? expectOneOf(env, "CACHE_STORE", CACHE_STORE_KINDS)
+		: config?.cache?.store ?? "memory";
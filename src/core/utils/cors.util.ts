@@ -6,7 +6,7 @@
  * - The 'Access-Control-Allow-Headers' header value
  * - The 'Access-Control-Allow-Credentials' header value
  */
-export const corsConfig = {
+export const corsConfig: CorsConfig = {
   enabled: true,
   allowOrigin: '*', // or specific domains like 'https://example.com'
   allowMethods: 'GET, POST, PUT, DELETE, OPTIONS',
@@ -15,18 +15,21 @@ export const corsConfig = {
 };
 
 /**
- * Sets CORS headers on an HTTP response based on the defined `corsConfig`. 
- * This function will only modify headers if CORS is enabled in the configuration.
+ * Sets CORS headers on an HTTP response based on the defined `corsConfig`, optionally overridden
+ * by the CORS policy of a route.
+ * This function will only modify headers if CORS is enabled in the resulting configuration.
  *
  * @param {Headers} headers - The Headers object of an HTTP response in which CORS headers are to be set.
+ * @param {Partial<CorsConfig>} [overrides] - Route specific settings overriding the global `corsConfig`.
  */
-export function setCORSHeaders(headers: Headers) {
-  if (corsConfig.enabled) {
-      headers.set('Access-Control-Allow-Origin', corsConfig.allowOrigin);
-      headers.set('Access-Control-Allow-Methods', corsConfig.allowMethods);
-      headers.set('Access-Control-Allow-Headers', corsConfig.allowHeaders);
-      if (corsConfig.allowCredentials) {
-          headers.set('Access-Control-Allow-Credentials', corsConfig.allowCredentials);
+export function setCORSHeaders(headers: Headers, overrides?: Partial<CorsConfig>) {
+  const config = overrides ? { ...corsConfig, ...overrides } : corsConfig;
+  if (config.enabled) {
+      headers.set('Access-Control-Allow-Origin', config.allowOrigin);
+      headers.set('Access-Control-Allow-Methods', config.allowMethods);
+      headers.set('Access-Control-Allow-Headers', config.allowHeaders);
+      if (config.allowCredentials) {
+          headers.set('Access-Control-Allow-Credentials', config.allowCredentials);
       }
   }
 }
\ No newline at end of file
@@ -37,4 +37,58 @@ export class RouteError extends Error {
 					this.stack = this.stack.split("\n").filter((line) => !line.includes("/utils/error.util")).join("\n");
 			}
 	}
-}
\ No newline at end of file
+}
+
+/**
+ * Error thrown when the configuration file is missing required values or contains invalid ones.
+ * The 'key' property holds the path of the offending key, e.g. `routes[2].upstream`.
+ *
+ * @extends Error
+ */
+export class ConfigError extends Error {
+	public key = '';
+
+	/**
+	 * Constructs a new ConfigError object.
+	 *
+	 * @param {string} message - Description of the problem.
+	 * @param {string} [key] - Path of the offending key in the configuration.
+	 */
+	constructor(message: string, key = '') {
+			super(key ? `Invalid configuration at "${key}": ${message}` : `Invalid configuration: ${message}`);
+			this.name = this.constructor.name;
+			this.key = key;
+	}
+}
+
+/**
+ * Error thrown when a file is locked by another live process, e.g. when two instances share
+ * the same cache snapshot path. The 'pid' property holds the process owning the lock, if known.
+ *
+ * @extends Error
+ */
+export class FileLockError extends Error {
+	public pid: number | undefined;
+
+	/**
+	 * Constructs a new FileLockError object.
+	 *
+	 * @param {string} filename - The locked file.
+	 * @param {number} [pid] - The process owning the lock.
+	 */
+	constructor(filename: string, pid?: number) {
+			super(`${filename} is locked${pid ? ` by process ${pid}` : ""}`);
+			this.name = this.constructor.name;
+			this.pid = pid;
+	}
+}
+
+/**
+ * Checks if an error thrown by a route handler is a server-side failure, such as an unreachable
+ * upstream: any error other than a RouteError, or a RouteError with a 5xx status code.
+ *
+ * @param {unknown} error - The error thrown by the handler.
+ * @returns {boolean} True if the error is a server-side failure.
+ */
+export const isServerError = (error: unknown): boolean =>
+	!(error instanceof RouteError) || error.statusCode >= 500;
@@ -1,4 +1,5 @@
 import { getCacheInstance } from "./cache.util";
+import { runInBackground } from "./background.util";
 import {
 	ENCODINGS,
 	convertCacheableObject,
@@ -6,6 +7,11 @@ import {
 	cacheResponseObject,
 	getUrlId,
 } from "./http.util";
+import {
+	UPSTREAM_ETAG_HEADER,
+	UPSTREAM_LAST_MODIFIED_HEADER,
+	refreshCacheableObject,
+} from "./conditional.util";
 
 /**
  * Type definition for the response data. It is an alias for the standard Response type.
@@ -20,6 +26,9 @@ type ResponseData = Response;
  * @param {string} uniqueKey - A unique identifier for the site or resource being fetched.
  * @param {string} url - The URL of the resource to fetch.
  * @param {RequestInit} [requestOptions] - Optional fetch options.
+ * @param {{ revalidate?: boolean; normalize?: CacheKeyNormalization; store?: CacheStore }} [staleOptions] - Whether
+ * to revalidate cached responses, the rules normalizing the URL before it is keyed, and the store of the cached
+ * responses, defaults to the store of the `CacheManager`.
  * @returns {Promise<ResponseData>} A promise that resolves to the response data.
  */
 export async function fetchStale(
@@ -28,16 +37,23 @@ export async function fetchStale(
 	requestOptions?: RequestInit,
 	staleOptions?: {
 		revalidate?: boolean;
+		normalize?: CacheKeyNormalization;
+		store?: CacheStore;
 	}
 ): Promise<ResponseData> {
 
 	const shouldRevalidate = Boolean(staleOptions?.revalidate ?? true);
 	// Define a unique cache key, e.g., based on the URL
-	const cacheKey = `fetchStale:${getUrlId(url, uniqueKey)}`;
+	const cacheKey = `fetchStale:${getUrlId(
+		url,
+		uniqueKey,
+		undefined,
+		staleOptions?.normalize,
+	)}`;
 
 	// Get cached data in brotli/gzip compression from the cache
-	const cache = getCacheInstance();
-	const cachedData = cache.get(cacheKey);
+	const store = staleOptions?.store ?? getCacheInstance();
+	const cachedData = await store.get(cacheKey);
 	// If found the cachedData, trigger a background revalidation
 	// Decompress the data, and return it as bun does not support
 	// Decompressing brotli, we need to do it ourself
@@ -45,7 +61,7 @@ export async function fetchStale(
 		// Convert to identity encoding for the function
 		// to be able to decompress it faster as it is going to do it in background anyway
 		if (shouldRevalidate) {
-			revalidateInBackground(url, requestOptions, cacheKey);
+			revalidateInBackground(url, requestOptions, cacheKey, store);
 		}
 		const cde = await convertCacheableObject(cachedData, [ENCODINGS.IDENTITY]);
 		const cachedHeaders = new Headers(cde.headers) as Headers;
@@ -57,28 +73,26 @@ export async function fetchStale(
 
 	const response = await fetch(url, requestOptions);
 	if (response.ok && shouldRevalidate) {
-		revalidateInBackground(url, requestOptions, cacheKey);
+		revalidateInBackground(url, requestOptions, cacheKey, store);
 	}
 	return response;
 }
 
-/**
- * A set to track ongoing background revalidation requests. This prevents multiple revalidations for the same resource.
- */
-const bgRequests = new Set<string>();
-
 /**
  * Performs an asynchronous revalidation of a resource. This function is intended to be used in the background to update the cache.
  * It only revalidates for GET, HEAD, or OPTIONS requests and ensures that only one revalidation occurs at a time for a given resource.
+ * The validators of the cached response are sent along, and when the resource did not change only the freshness of the entry is renewed.
  * 
  * @param {string} url - The URL of the resource to revalidate.
  * @param {RequestInit | undefined} options - The options for the fetch request used in revalidation.
  * @param {string} cacheKey - The cache key associated with the resource.
+ * @param {CacheStore} store - The store of the cached resource.
  */
-async function revalidateInBackground(
+function revalidateInBackground(
 	url: string,
 	options: RequestInit | undefined,
 	cacheKey: string,
+	store: CacheStore,
 ) {
 	if (
 		!["GET", "HEAD", "OPTIONS"].includes(
@@ -87,36 +101,50 @@ async function revalidateInBackground(
 	) {
 		return;
 	}
-	if (bgRequests.has(cacheKey)) {
-		// A revalidation is already in progress for this key
-		return;
-	}
 
-	bgRequests.add(cacheKey);
-	try {
-		const headers = new Headers(options?.headers ?? {});
-		let response = await fetch(url, {
-			...options,
-			headers,
-		});
-		// Convert response to identity, till the time bun supports brotli
-		const responseText = await response.text();
-		const responseHeaders = new Headers(response.headers);
-		responseHeaders.set("content-encoding", ENCODINGS.IDENTITY);
-		responseHeaders.set("content-length", responseText.length.toString());
-		response = new Response(responseText, {
-			status: response.status,
-			headers:  responseHeaders as Headers,
-			statusText: response.statusText,
-		});
-		const cacheableObject = await convertToCacheableObject(
-			response,
-			Object.values(ENCODINGS),
-		);
-		await cacheResponseObject(cacheKey, cacheableObject);
-	} catch (error) {
-		console.error(`Error during revalidation for ${url}:`, error);
-	} finally {
-		bgRequests.delete(cacheKey);
-	}
+	// A revalidation already in progress for this key is not started again
+	runInBackground(cacheKey, async () => {
+		try {
+			const headers = new Headers(options?.headers ?? {});
+			const cachedData = await store.get(cacheKey);
+			const cachedHeaders = new Headers(cachedData?.headers ?? []);
+			const etag = cachedHeaders.get(UPSTREAM_ETAG_HEADER);
+			const lastModified = cachedHeaders.get(UPSTREAM_LAST_MODIFIED_HEADER);
+			if (etag && !headers.has("if-none-match")) {
+				headers.set("if-none-match", etag);
+			}
+			if (lastModified && !headers.has("if-modified-since")) {
+				headers.set("if-modified-since", lastModified);
+			}
+			let response = await fetch(url, {
+				...options,
+				headers,
+			});
+			if (response.status === 304 && cachedData) {
+				await cacheResponseObject(
+					cacheKey,
+					refreshCacheableObject(cachedData, response.headers as Headers),
+					store,
+				);
+				return;
+			}
+			// Convert response to identity, till the time bun supports brotli
+			const responseText = await response.text();
+			const responseHeaders = new Headers(response.headers);
+			responseHeaders.set("content-encoding", ENCODINGS.IDENTITY);
+			responseHeaders.set("content-length", responseText.length.toString());
+			response = new Response(responseText, {
+				status: response.status,
+				headers:  responseHeaders as Headers,
+				statusText: response.statusText,
+			});
+			const cacheableObject = await convertToCacheableObject(
+				response,
+				Object.values(ENCODINGS),
+			);
+			await cacheResponseObject(cacheKey, cacheableObject, store);
+		} catch (error) {
+			console.error(`Error during revalidation for ${url}:`, error);
+		}
+	});
 }
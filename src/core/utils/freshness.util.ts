@@ -0,0 +1,77 @@
+/**
+ * States of a cached entry relative to the freshness windows of its route.
+ */
+export const FRESHNESS = {
+	// Served from the cache as is
+	FRESH: "fresh",
+	// Served from the cache while it is revalidated in the background
+	STALE: "stale",
+	// Too old to be served, handled as a cache miss
+	EXPIRED: "expired",
+} as const;
+
+export type Freshness = (typeof FRESHNESS)[keyof typeof FRESHNESS];
+
+/**
+ * Computes the age of a cached entry from its 'x-cache-date' header.
+ *
+ * @param {ResponseCacheableObject} cacheableObj - The cached entry.
+ * @param {number} [now=Date.now()] - The current time, in milliseconds.
+ * @returns {number | undefined} The age in whole seconds, or undefined if the cache date is missing or invalid.
+ */
+export const getCacheAge = (
+	cacheableObj: ResponseCacheableObject,
+	now = Date.now(),
+): number | undefined => {
+	const cacheDate = Date.parse(
+		new Headers(cacheableObj.headers).get("x-cache-date") ?? "",
+	);
+	if (Number.isNaN(cacheDate)) return undefined;
+	return Math.max(0, Math.floor((now - cacheDate) / 1000));
+};
+
+/**
+ * Classifies a cached entry using the freshness windows of its route. The entry is fresh for
+ * `maxAge` seconds, then stale for `staleWhileRevalidate` more seconds, then expired. Without
+ * `maxAge` the entry is never fresh, so every hit revalidates it; without `staleWhileRevalidate`
+ * a stale entry never expires. An entry of unknown age is stale, it is served once and revalidated.
+ *
+ * @param {ResponseCacheableObject} cacheableObj - The cached entry.
+ * @param {FreshnessWindows} windows - The freshness windows, see `getFreshnessWindows`.
+ * @param {number} [now=Date.now()] - The current time, in milliseconds.
+ * @returns {Freshness} The freshness of the entry.
+ */
+export const getFreshness = (
+	cacheableObj: ResponseCacheableObject,
+	windows: FreshnessWindows,
+	now = Date.now(),
+): Freshness => {
+	const age = getCacheAge(cacheableObj, now);
+	if (age === undefined) return FRESHNESS.STALE;
+	const maxAge = windows.maxAge ?? 0;
+	if (windows.maxAge !== undefined && age < maxAge) return FRESHNESS.FRESH;
+	if (age < maxAge + (windows.staleWhileRevalidate ?? Infinity)) {
+		return FRESHNESS.STALE;
+	}
+	return FRESHNESS.EXPIRED;
+};
+
+/**
+ * Checks if a cached entry may still be served when its handler fails: while it is fresh or
+ * stale, and for `staleIfError` seconds past `maxAge`.
+ *
+ * @param {ResponseCacheableObject} cacheableObj - The cached entry.
+ * @param {FreshnessWindows} windows - The freshness windows, see `getFreshnessWindows`.
+ * @param {number} [now=Date.now()] - The current time, in milliseconds.
+ * @returns {boolean} True if the entry may be served on error.
+ */
+export const isUsableOnError = (
+	cacheableObj: ResponseCacheableObject,
+	windows: FreshnessWindows,
+	now = Date.now(),
+): boolean => {
+	if (windows.staleIfError === undefined) return false;
+	if (getFreshness(cacheableObj, windows, now) !== FRESHNESS.EXPIRED) return true;
+	const age = getCacheAge(cacheableObj, now);
+	return age !== undefined && age < (windows.maxAge ?? 0) + windows.staleIfError;
+};
@@ -13,3 +13,13 @@ export const hash = (string: string) => {
 	const h64 = xxhashjs.h64(string, DEFAULT_SEED);
 	return h64.toString(16);
 };
+
+/**
+ * Computes a 32-bit xxHash checksum of binary data, used to detect corrupted records.
+ *
+ * @param {Buffer} data - The data to checksum.
+ * @returns {number} The checksum as an unsigned 32-bit integer.
+ */
+export const checksum = (data: Buffer): number => {
+	return xxhashjs.h32(data, DEFAULT_SEED).toNumber();
+};
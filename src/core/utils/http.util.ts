@@ -1,6 +1,11 @@
 import { hash } from "./hash.util";
 import { requestMemoize } from "./memoize.util";
 import { getCacheInstance } from "./cache.util";
+import {
+	UPSTREAM_ETAG_HEADER,
+	UPSTREAM_LAST_MODIFIED_HEADER,
+	generateETag,
+} from "./conditional.util";
 import {
 	brotliCompress,
 	brotliDecompress,
@@ -21,9 +26,12 @@ export const ENCODINGS = {
  * Generates a unique request identifier for an HTTP request. This function leverages memoization to cache and 
  * retrieve identifiers for identical requests efficiently, using the `requestMemoize` utility. The identifier 
  * is created by first extracting the URL from the request and an optional unique header ('x-unique-id'). 
- * It then uses the `getUrlId` function to generate a hashed identifier based on the URL and the unique header.
+ * It then uses the `getUrlId` function to generate a hashed identifier based on the URL, normalized with the
+ * rules of the route, the unique header and the request components declared by the route.
  *
  * @param {Request} request - The HTTP request object for which the unique ID is generated.
+ * @param {RouteVary} [vary] - The headers, cookies and query parameters the route keys its responses on.
+ * @param {CacheKeyNormalization} [normalize] - The rules normalizing the URL.
  * @returns {string} A unique identifier for the request, prefixed with 'req:'.
  *
  * @example
@@ -31,46 +39,186 @@ export const ENCODINGS = {
  * const reqId = getRequestId(new Request('http://example.com/path'));
  * // returns 'req:<hashed_value_of_the_URL>'
  *
- * @note This function is memoized, so calling it multiple times with the same request 
- * will return the same identifier without recomputing it.
+ * @note This function is memoized, so calling it multiple times with the same request, vary components
+ * and normalization rules will return the same identifier without recomputing it.
+ */
+export const getRequestId = requestMemoize(
+	(request: Request, vary?: RouteVary, normalize?: CacheKeyNormalization) => {
+		const uniqueId = request.headers.get("x-unique-id") || "";
+		return `req:${getUrlId(
+			request.url,
+			uniqueId,
+			getCacheKeyComponents(request, vary),
+			normalize,
+		)}`;
+	},
+);
+
+/**
+ * Query parameters used to track campaigns and clicks, they never change the content of a response.
+ */
+const TRACKING_QUERY_PARAMS = [
+	"gclid",
+	"gbraid",
+	"wbraid",
+	"dclid",
+	"fbclid",
+	"msclkid",
+	"yclid",
+	"igshid",
+	"mc_cid",
+	"mc_eid",
+	"_ga",
+	"_gl",
+];
+
+/**
+ * Checks if a query parameter is a tracking parameter, e.g. `utm_source` or `gclid`.
+ *
+ * @param {string} name - The name of the query parameter.
+ * @returns {boolean} True if the parameter only tracks the visitor.
+ */
+const isTrackingParam = (name: string): boolean => {
+	const lowerName = name.toLowerCase();
+	return lowerName.startsWith("utm_") || TRACKING_QUERY_PARAMS.includes(lowerName);
+};
+
+/**
+ * Applies normalization rules to a URL: its path may lose its trailing slashes and be lower-cased,
+ * and ignored, tracking or empty query parameters are removed. Query parameters are sorted by name.
+ *
+ * @param {string | URL} url - The URL to normalize.
+ * @param {CacheKeyNormalization} [normalize] - The rules to apply.
+ * @returns {URL} The normalized URL.
+ *
+ * @example
+ * normalizeUrl('http://example.com/Coffee/?utm_source=x&b=', { stripTracking: true, trailingSlash: true, lowercase: true, dropEmpty: true });
+ * // returns the URL 'http://example.com/coffee'
  */
-export const getRequestId = requestMemoize((request: Request) => {
-	const uniqueId = request.headers.get("x-unique-id") || "";
-	return `req:${getUrlId(request.url, uniqueId)}`;
-});
+export const normalizeUrl = (
+	url: string | URL,
+	normalize: CacheKeyNormalization = {},
+): URL => {
+	const urlObj = new URL(url);
+
+	if (normalize.trailingSlash) {
+		urlObj.pathname = urlObj.pathname.replace(/\/+$/, "") || "/";
+	}
+	if (normalize.lowercase) {
+		urlObj.pathname = urlObj.pathname.toLowerCase();
+	}
+
+	// Sort the search parameters by their keys, leaving out the ones that do not matter
+	urlObj.search = new URLSearchParams(
+		Array.from(urlObj.searchParams)
+			.filter(
+				([name, value]) =>
+					(!normalize.allowQuery || normalize.allowQuery.includes(name)) &&
+					!normalize.ignoreQuery?.includes(name) &&
+					!(normalize.stripTracking && isTrackingParam(name)) &&
+					!(normalize.dropEmpty && value === ""),
+			)
+			.sort((a, b) => a[0].localeCompare(b[0])),
+	).toString();
+	return urlObj;
+};
 
 /**
- * Generates a unique identifier for a given URL. This function processes the URL by sorting its query parameters
- * and optionally prepending a prefix, then hashes the result to create a unique identifier.
+ * Reads the values of the request components a route keys its responses on. Header names are
+ * lower-cased, missing headers and cookies take an empty value so that they are keyed too.
+ *
+ * @param {Request} request - The HTTP request.
+ * @param {RouteVary} [vary] - The headers, cookies and query parameters declared by the route.
+ * @returns {CacheKeyComponents | undefined} The components, undefined when the route declares none.
+ */
+export const getCacheKeyComponents = (
+	request: Request,
+	vary?: RouteVary,
+): CacheKeyComponents | undefined => {
+	if (!vary) return undefined;
+	const cookies = new Map<string, string>();
+	if (vary.cookies?.length) {
+		for (const cookie of (request.headers.get("cookie") || "").split(";")) {
+			const separator = cookie.indexOf("=");
+			if (separator === -1) continue;
+			const name = cookie.slice(0, separator).trim();
+			if (!cookies.has(name)) cookies.set(name, cookie.slice(separator + 1).trim());
+		}
+	}
+	return {
+		query: vary.query,
+		headers: vary.headers?.map((name) => [
+			name.toLowerCase(),
+			request.headers.get(name) || "",
+		]),
+		cookies: vary.cookies?.map((name) => [name, cookies.get(name) || ""]),
+	};
+};
+
+/**
+ * Serializes name/value pairs sorted by name, so that the declaration order does not change a key.
+ *
+ * @param {string} kind - A marker distinguishing headers from cookies.
+ * @param {[string, string][]} [pairs] - The name/value pairs.
+ * @returns {string} The serialized pairs, empty when there is none.
+ */
+const serializeKeyPairs = (kind: string, pairs?: [string, string][]): string =>
+	(pairs ?? [])
+		.slice()
+		.sort((a, b) => a[0].localeCompare(b[0]))
+		.map(([name, value]) => `\n${kind}:${name}=${encodeURIComponent(value)}`)
+		.join("");
+
+/**
+ * Generates a unique identifier for a given URL. This function normalizes the URL, sorting its query parameters,
+ * and optionally prepends a prefix, then hashes the result to create a unique identifier. The host is part of
+ * the identifier, so that virtual hosts sharing a path do not share entries. Request headers and cookies given
+ * as components are part of the identifier too, and when the components list query parameters only those are kept.
  * 
  * @param {string | URL} url - The URL (or URL string) for which the unique ID is generated.
- * @param {string} [prefix=''] - An optional prefix added before the URL pathname in the ID generation process.
+ * @param {string} [prefix=''] - An optional prefix added before the URL host in the ID generation process.
+ * @param {CacheKeyComponents} [components] - Optional request components added to the ID.
+ * @param {CacheKeyNormalization} [normalize] - Optional rules normalizing the URL, see `normalizeUrl`.
  * @returns {string} A unique identifier for the URL, prefixed with 'u:'.
  *
  * @example
  * // With a URL string and no prefix
  * getUrlId('http://example.com/path?b=2&a=1');
- * // returns 'u:<hashed_value_of_/path?a=1&b=2>'
+ * // returns 'u:<hashed_value_of_example.com/path?a=1&b=2>'
  *
  * @example
  * // With a URL object and a prefix
  * getUrlId(new URL('http://example.com/path?b=2&a=1'), 'prefix-');
- * // returns 'u:<hashed_value_of_prefix-/path?a=1&b=2>'
+ * // returns 'u:<hashed_value_of_prefix-example.com/path?a=1&b=2>'
+ *
+ * @example
+ * // Keyed on a header and a single query parameter
+ * getUrlId('http://example.com/path?b=2&a=1', '', { query: ['a'], headers: [['accept-language', 'fr']] });
+ * // returns 'u:<hashed_value_of_example.com/path?a=1 and the header>'
  */
-export const getUrlId = (url: string | URL, prefix = '') => {
-	const urlObj = new URL(url);
-
-	// Sort the search parameters by their keys
-	urlObj.search = new URLSearchParams(
-		Array.from(urlObj.searchParams).sort((a, b) => a[0].localeCompare(b[0])),
-	).toString();
+export const getUrlId = (
+	url: string | URL,
+	prefix = '',
+	components?: CacheKeyComponents,
+	normalize?: CacheKeyNormalization,
+) => {
+	const query = components?.query;
+	const urlObj = normalizeUrl(url, normalize);
+	if (query) {
+		urlObj.search = new URLSearchParams(
+			Array.from(urlObj.searchParams).filter(([name]) => query.includes(name)),
+		).toString();
+	}
 
-	// Construct the URL with sorted search parameters
-	const exceptHost = prefix
+	// Construct the URL with sorted search parameters, keeping the host apart for virtual hosts
+	const uniqueUrl = prefix
+		+ urlObj.host
 		+ urlObj.pathname
-		+ (urlObj.search ? urlObj.search : "");
+		+ (urlObj.search ? urlObj.search : "")
+		+ serializeKeyPairs("h", components?.headers)
+		+ serializeKeyPairs("c", components?.cookies);
 
-	const uniqueUrlKey = hash(exceptHost);
+	const uniqueUrlKey = hash(uniqueUrl);
 
 	return `u:${uniqueUrlKey}`;
 };
@@ -154,20 +302,32 @@ export async function compressString(
 
 /**
  * Converts data or an HTTP response into a cacheable object. It compresses 
- * the data and sets appropriate response headers.
+ * the data and sets appropriate response headers, including a strong ETag
+ * computed over the uncompressed content. The validators of a response are
+ * kept to revalidate it with the upstream. A 304 response is kept as is, its
+ * headers describe the representation the client already holds.
  * 
  * @param {JsonValue | Response} [data] - The data or HTTP response to convert.
  * @param {string[]} [acceptableEncodings=['br', 'gzip', 'deflate']] - An array of acceptable encodings for compression.
+ * @param {Object} [options] - `keepETag` keeps the ETag of the response, for responses that are not cached.
  * @returns {Promise<ResponseCacheableObject>} A promise that resolves to the cacheable response object.
  * @throws {Error} Throws an error if no acceptable encodings are provided.
  */
 export const convertToCacheableObject = async (
 	data?: string | JsonValue | Response,
 	acceptableEncodings = [ENCODINGS.BROTLI, ENCODINGS.GZIP, ENCODINGS.DEFLATE],
+	options?: { keepETag?: boolean },
 ): Promise<ResponseCacheableObject> => {
 	if (!acceptableEncodings || !acceptableEncodings.length) {
 		throw new Error("Please provide array of acceptable encodings");
 	}
+	if (data instanceof Response && data.status === 304) {
+		return {
+			body: new Uint8Array(),
+			status: data.status,
+			headers: Array.from((data.headers as Headers).entries()),
+		};
+	}
 
 	// Define the order of preference for compression methods
 	const preferredEncodings = [
@@ -182,17 +342,23 @@ export const convertToCacheableObject = async (
 		preferredEncodings.find((enc) => acceptableEncodings.includes(enc)) ||
 		ENCODINGS.IDENTITY;
 
-	let compressedData: Uint8Array;
+	let stringData = '';
 	let responseHeaders: Headers;
 	let status: number;
 
 	if (data instanceof Response) {
-		compressedData = await compressResponse(data, dataEncoding);
+		stringData = await decompressResponse(data);
 		responseHeaders = new Headers(data.headers) as Headers;
 		status = data.status;
+		// Validators of the upstream, sent back when the response is revalidated
+		const upstreamETag = responseHeaders.get("etag");
+		if (upstreamETag) responseHeaders.set(UPSTREAM_ETAG_HEADER, upstreamETag);
+		const upstreamLastModified = responseHeaders.get("last-modified");
+		if (upstreamLastModified) {
+			responseHeaders.set(UPSTREAM_LAST_MODIFIED_HEADER, upstreamLastModified);
+		}
 	} else {
 		responseHeaders = new Headers() as Headers;
-		let stringData = '';
 		if (typeof data === "string") {
 			stringData = data;
 			// Dealing with string data / plain text
@@ -202,9 +368,13 @@ export const convertToCacheableObject = async (
 			// dealing with structured data most probably json
 			responseHeaders.set("content-type", "application/json");
 		}
-		compressedData = await compressString(stringData, dataEncoding);
 		status = 200;
 	}
+	const compressedData = await compressData(stringData, dataEncoding);
+	// The entity tag identifies the content whatever its encoding
+	if (!options?.keepETag || !responseHeaders.has("etag")) {
+		responseHeaders.set("etag", generateETag(stringData));
+	}
 	responseHeaders.set("content-encoding", dataEncoding);
 	responseHeaders.set("content-length", compressedData.length.toString());
 	return {
@@ -216,23 +386,29 @@ export const convertToCacheableObject = async (
 
 /**
  * Caches a response object with a unique request ID and updates the
- * 'x-cache-date' header to the current time.
+ * 'x-cache-date' header to the current time. Responses without a 'last-modified'
+ * header are considered modified when cached.
  * 
  * @param {string} requestId - The unique request ID associated with the response object.
  * @param {ResponseCacheableObject} responseObj - The response object to cache.
+ * @param {CacheStore} [store] - The store to cache it in, defaults to the store of the `CacheManager`.
  * @returns {Promise<ResponseCacheableObject>} A promise that resolves to the updated response object.
  */
 export const cacheResponseObject = async (
 	requestId: string,
 	responseObj: ResponseCacheableObject,
+	store: CacheStore = getCacheInstance(),
 ): Promise<ResponseCacheableObject> => {
 	// Set cache-date header
 	const headers = new Headers(responseObj.headers);
-	headers.set("x-cache-date", new Date().toISOString());
+	const cacheDate = new Date();
+	headers.set("x-cache-date", cacheDate.toISOString());
+	if (!headers.has("last-modified")) {
+		headers.set("last-modified", cacheDate.toUTCString());
+	}
 	responseObj.headers = Array.from(headers.entries());
 
-	const cache = getCacheInstance();
-	cache.set(requestId, responseObj);
+	await store.set(requestId, responseObj);
 	return responseObj;
 };
 
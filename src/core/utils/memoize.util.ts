@@ -1,7 +1,8 @@
 /**
  * Creates a memoized version of a function that depends on a Request object. It uses a WeakMap to cache the results
  * based on the Request object to avoid memory leaks. This is particularly useful for caching results of operations
- * that are expensive and request-specific.
+ * that are expensive and request-specific. Results are cached per set of additional arguments, so that calls with
+ * other arguments on the same request are not answered with a stale result.
  *
  * @param {F} fn - The function to be memoized. It should accept a Request object as its first argument.
  * @returns {F} The memoized function.
@@ -11,19 +12,26 @@
 export function requestMemoize<F extends (req: Request, ...args: any[]) => any>(
 	fn: F,
 ): F {
-	const cache = new WeakMap<Request, ReturnType<F>>();
+	const cache = new WeakMap<Request, Map<string, ReturnType<F>>>();
 
 	// biome-ignore lint/suspicious/noExplicitAny: <explanation>
 	return function (this: any, req: Request, ...args: any[]): ReturnType<F> {
-		// Check if the cache has a result for this request
-		if (cache.has(req)) {
+		let results = cache.get(req);
+		if (!results) {
+			results = new Map<string, ReturnType<F>>();
+			cache.set(req, results);
+		}
+
+		const key = JSON.stringify(args);
+		// Check if the cache has a result for this request and these arguments
+		if (results.has(key)) {
 			// biome-ignore lint/style/noNonNullAssertion: <explanation>
-			return cache.get(req)!;
+			return results.get(key)!;
 		}
 
 		// Call the function and store the result in the cache
 		const result = fn.apply(this, [req, ...args]);
-		cache.set(req, result);
+		results.set(key, result);
 		return result;
 	} as F;
 }
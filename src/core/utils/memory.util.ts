@@ -1,4 +1,6 @@
+import { readFile } from "node:fs/promises";
 import os from "os";
+import path from "path";
 
 /**
  * Asynchronously retrieves the amount of free memory in bytes on the system. This function supports multiple platforms,
@@ -55,3 +57,166 @@ export async function getFreeMemoryInBytes(): Promise<number> {
 	}
 	return freeMemory;
 }
+
+/**
+ * Mount point of the cgroup filesystem.
+ */
+export const CGROUP_ROOT = "/sys/fs/cgroup";
+
+// cgroup v1 reports an unlimited cgroup with a huge page-aligned value instead of "max"
+const CGROUP_UNLIMITED = 2 ** 60;
+
+/**
+ * Reads a byte count from a cgroup file.
+ *
+ * @param {string} file - The cgroup file.
+ * @returns {Promise<number | undefined>} The byte count, undefined when the file is missing or unlimited.
+ */
+const readCgroupBytes = async (file: string): Promise<number | undefined> => {
+	try {
+		const value = (await readFile(file, "utf-8")).trim();
+		if (value === "max") return undefined;
+		const bytes = Number(value);
+		return Number.isFinite(bytes) && bytes < CGROUP_UNLIMITED ? bytes : undefined;
+	} catch {
+		return undefined;
+	}
+};
+
+/**
+ * Reads a statistic of a cgroup `memory.stat` file.
+ *
+ * @param {string} file - The `memory.stat` file.
+ * @param {string} name - The name of the statistic, e.g. "inactive_file".
+ * @returns {Promise<number>} The value of the statistic, 0 when the file or the statistic is missing.
+ */
+const readCgroupStat = async (file: string, name: string): Promise<number> => {
+	try {
+		const line = (await readFile(file, "utf-8"))
+			.split("\n")
+			.find((statLine) => statLine.startsWith(`${name} `));
+		const value = Number(line?.slice(name.length + 1));
+		return Number.isFinite(value) ? value : 0;
+	} catch {
+		return 0;
+	}
+};
+
+/**
+ * Reads the memory limit and usage of the cgroup the process runs in, e.g. the limit of a Docker
+ * container, trying cgroup v2 then cgroup v1. The usage is the working set: the inactive page
+ * cache, e.g. of the sqlite store or the snapshot files, is reclaimed by the kernel before the
+ * cgroup runs out of memory, so it is not counted.
+ *
+ * @param {string} [root] - The mount point of the cgroup filesystem.
+ * @returns {Promise<CgroupMemory | undefined>} The limit and usage, undefined when the memory is not limited.
+ */
+export async function getCgroupMemory(root = CGROUP_ROOT): Promise<CgroupMemory | undefined> {
+	const v2Limit = await readCgroupBytes(path.join(root, "memory.max"));
+	if (v2Limit !== undefined) {
+		const current = (await readCgroupBytes(path.join(root, "memory.current"))) ?? 0;
+		const inactiveFile = await readCgroupStat(path.join(root, "memory.stat"), "inactive_file");
+		return { version: 2, limit: v2Limit, usage: Math.max(current - inactiveFile, 0) };
+	}
+	const v1Limit = await readCgroupBytes(path.join(root, "memory", "memory.limit_in_bytes"));
+	if (v1Limit !== undefined) {
+		const current =
+			(await readCgroupBytes(path.join(root, "memory", "memory.usage_in_bytes"))) ?? 0;
+		// total_ includes the child cgroups, like usage_in_bytes
+		const inactiveFile = await readCgroupStat(
+			path.join(root, "memory", "memory.stat"),
+			"total_inactive_file",
+		);
+		return { version: 1, limit: v1Limit, usage: Math.max(current - inactiveFile, 0) };
+	}
+	return undefined;
+}
+
+/**
+ * Retrieves the memory available to the process: the free memory of the host, bounded by what is
+ * left under the cgroup limit when the process runs in a memory-limited container.
+ *
+ * @param {string} [root] - The mount point of the cgroup filesystem.
+ * @returns {Promise<AvailableMemory>} The available bytes and where they were read from.
+ */
+export async function getAvailableMemory(root = CGROUP_ROOT): Promise<AvailableMemory> {
+	const hostBytes = await getFreeMemoryInBytes().catch(() => Infinity);
+	const cgroup = os.platform() === "linux" ? await getCgroupMemory(root) : undefined;
+	if (cgroup) {
+		const cgroupBytes = Math.max(cgroup.limit - cgroup.usage, 0);
+		if (cgroupBytes <= hostBytes) {
+			return { bytes: cgroupBytes, source: `cgroup v${cgroup.version}`, limit: cgroup.limit };
+		}
+	}
+	return { bytes: Number.isFinite(hostBytes) ? hostBytes : 0, source: "host" };
+}
+
+/**
+ * Computes the memory budget of the cache: an absolute size, or a share of the available memory,
+ * clamped between the minimum and maximum sizes.
+ *
+ * @param {AvailableMemory} available - The memory available to the process.
+ * @param {CacheBudgetOptions} [options] - The configured size, share and bounds.
+ * @returns {CacheBudget} The budget in bytes and how it was chosen.
+ */
+export const resolveCacheBudget = (
+	available: AvailableMemory,
+	options: CacheBudgetOptions = {},
+): CacheBudget => {
+	const percentage = options.percentage ?? 0.7;
+	const budget: CacheBudget =
+		options.size !== undefined
+			? { bytes: options.size, source: "size" }
+			: {
+					// The cache cannot be sized to 0 bytes
+					bytes: Math.max(Math.floor(available.bytes * percentage), 1),
+					source: available.source,
+					percentage,
+			  };
+	if (options.maxSize !== undefined && budget.bytes > options.maxSize) {
+		return { ...budget, bytes: options.maxSize, clamped: "max" };
+	}
+	if (options.minSize !== undefined && budget.bytes < options.minSize) {
+		return { ...budget, bytes: options.minSize, clamped: "min" };
+	}
+	return budget;
+};
+
+/**
+ * Formats a byte count for the logs, e.g. "512.0 MB".
+ *
+ * @param {number} bytes - The byte count.
+ * @returns {string} The formatted size.
+ */
+export const formatBytes = (bytes: number): string => {
+	const units = ["B", "KB", "MB", "GB", "TB"];
+	let value = bytes;
+	let unit = 0;
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024;
+		unit += 1;
+	}
+	return unit ? `${value.toFixed(1)} ${units[unit]}` : `${value} B`;
+};
+
+/**
+ * Describes the memory budget of the cache for the startup logs, e.g.
+ * "358.4 MB (70% of 512.0 MB available, cgroup v2 limit 1.0 GB)".
+ *
+ * @param {CacheBudget} budget - The budget of the cache.
+ * @param {AvailableMemory} available - The memory available to the process.
+ * @returns {string} The description.
+ */
+export const describeCacheBudget = (budget: CacheBudget, available: AvailableMemory): string => {
+	const details =
+		budget.source === "size"
+			? ["configured size"]
+			: [
+					`${Math.round((budget.percentage ?? 0) * 100)}% of ${formatBytes(available.bytes)} available`,
+					available.limit !== undefined
+						? `${available.source} limit ${formatBytes(available.limit)}`
+						: available.source,
+			  ];
+	if (budget.clamped) details.push(`clamped to the ${budget.clamped}imum size`);
+	return `${formatBytes(budget.bytes)} (${details.join(", ")})`;
+};
@@ -0,0 +1,69 @@
+/**
+ * Names of the counters maintained by BunBlaze.
+ */
+export const COUNTERS = {
+	// Background revalidations that failed, whether the entry was kept or evicted
+	REVALIDATION_FAILURES: "revalidation_failures",
+	// Responses served from a stale entry because the handler failed
+	STALE_IF_ERROR_HITS: "stale_if_error_hits",
+	// Cache entries evicted by the memory watchdog to relieve memory pressure
+	PRESSURE_EVICTIONS: "pressure_evictions",
+};
+
+/**
+ * Counters of a server instance, so that servers running side by side report their own.
+ */
+export class Counters {
+	private values = new Map<string, number>();
+
+	/**
+	 * Increments a counter.
+	 *
+	 * @param {string} name - The name of the counter, see `COUNTERS`.
+	 * @param {number} [by=1] - The increment.
+	 */
+	increment(name: string, by = 1) {
+		this.values.set(name, (this.values.get(name) ?? 0) + by);
+	}
+
+	/**
+	 * Returns the current value of every counter.
+	 *
+	 * @returns {{ [name: string]: number }} The counters by name.
+	 */
+	get(): { [name: string]: number } {
+		return Object.fromEntries(this.values);
+	}
+
+	// Resets every counter
+	reset() {
+		this.values.clear();
+	}
+}
+
+/**
+ * Counters used when no instance is given, e.g. by a watchdog created on its own.
+ */
+export const defaultCounters = new Counters();
+
+/**
+ * Increments a default counter.
+ *
+ * @param {string} name - The name of the counter, see `COUNTERS`.
+ * @param {number} [by=1] - The increment.
+ */
+export const incrementCounter = (name: string, by = 1) => {
+	defaultCounters.increment(name, by);
+};
+
+/**
+ * Returns the current value of every default counter.
+ *
+ * @returns {{ [name: string]: number }} The counters by name.
+ */
+export const getCounters = (): { [name: string]: number } => defaultCounters.get();
+
+// Resets every default counter (use only for testing)
+export const resetCounters = () => {
+	defaultCounters.reset();
+};
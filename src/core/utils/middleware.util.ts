@@ -0,0 +1,74 @@
+import { jsonResponse, notFoundResponse } from "./response.util";
+
+/**
+ * Composes a list of middleware around a final handler into a single function. Each middleware
+ * receives the context and a `next` function running the rest of the chain; it can short-circuit
+ * by returning a response without calling `next`, replace `ctx.request` before calling it, or
+ * modify the response returned by it.
+ *
+ * @param {Middleware[]} middleware - The middleware, outermost first.
+ * @param {(ctx: MiddlewareContext) => Promise<Response>} handler - The final handler of the chain.
+ * @returns {(ctx: MiddlewareContext) => Promise<Response>} A function running the whole chain.
+ */
+export const composeMiddleware = (
+	middleware: Middleware[],
+	handler: (ctx: MiddlewareContext) => Promise<Response>,
+) => {
+	if (!middleware.length) return handler;
+
+	return (ctx: MiddlewareContext): Promise<Response> => {
+		let lastIndex = -1;
+		const dispatch = async (index: number): Promise<Response> => {
+			if (index <= lastIndex) {
+				throw new Error("next() called multiple times in the same middleware");
+			}
+			lastIndex = index;
+			if (index === middleware.length) {
+				return handler(ctx);
+			}
+			return middleware[index](ctx, () => dispatch(index + 1));
+		};
+		return dispatch(0);
+	};
+};
+
+/**
+ * Answers requests for favicon.ico with a 404, they are never routed.
+ */
+export const faviconMiddleware: Middleware = (ctx, next) => {
+	if (ctx.request.url.includes("/favicon.ico")) {
+		return notFoundResponse();
+	}
+	return next();
+};
+
+/**
+ * Health Check should be defined before any request and does not
+ * need to be cached!
+ */
+export const healthcheckMiddleware: Middleware = (ctx, next) => {
+	if (ctx.request.url.includes("/healthcheck")) {
+		return jsonResponse({
+			success: true,
+			message: "Health Check is good.",
+		});
+	}
+	return next();
+};
+
+/**
+ * Creates the middleware answering the status endpoint with the runtime statistics of the
+ * server, e.g. its counters and the size of its cache. It is never cached.
+ *
+ * @param {string} path - The path of the status endpoint.
+ * @param {() => Promise<JsonObject> | JsonObject} getStatus - Collects the statistics.
+ * @returns {Middleware} The status middleware.
+ */
+export const createStatusMiddleware =
+	(path: string, getStatus: () => Promise<JsonObject> | JsonObject): Middleware =>
+	async (ctx, next) => {
+		if (new URL(ctx.request.url).pathname === path) {
+			return jsonResponse(await getStatus());
+		}
+		return next();
+	};
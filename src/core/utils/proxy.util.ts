@@ -1,5 +1,8 @@
 import { URLPattern } from "urlpattern-polyfill/urlpattern";
-import { constructUrlFromPatternAndParams } from "./router.util";
+import {
+	constructUrlFromPatternAndParams,
+	resolveUpstreamUrl,
+} from "./router.util";
 import { RouteError } from "./error.util";
 import { ENCODINGS } from "./http.util";
 
@@ -78,35 +81,59 @@ function getClientIp(request: Request): string | null {
 }
 
 type ProxyUrlFn = ((req: Request, params?: RouteParams) => string | Promise<string>);
+
+/**
+ * Takes the route options out of the options of a proxy route, leaving the headers sent to the
+ * upstream behind.
+ *
+ * @param {Object} [options] - The options of the proxy route.
+ * @returns {Object} The options the route itself is configured with.
+ */
+const getRouteOptions = <T extends { headers?: { [name: string]: string } }>(
+	options?: T,
+): Omit<T, "headers"> => {
+	const { headers, ...routeOptions } = options ?? ({} as T);
+	return routeOptions;
+};
+
 /**
  * Creates a proxy route configuration. The function proxies requests to a specified URL and optionally
  * caches responses and bypasses parsing. It also handles forwarding headers, client IP, and decoding
- * Brotli-compressed responses.
- * options: {
- *	 cache?: boolean;
+ * Brotli-compressed responses. A relative proxy URL is resolved against the route's upstream, usually
+ * inherited from a route group.
+ * options: route options such as `cache`, `maxAge`, `cors` or `upstream`, plus:
+ * {
+ *	 headers?: { [name: string]: string };
+ *	 pattern?: URLPatternInit;
+ *	 method?: string | string[];
  * }
  *
  * @param {string} path - The path pattern for the route.
- * @param {string | URL} proxyUrl - The URL to which the request should be proxied.
- * @param {Object} [options] - Optional settings for the proxy route such as caching and parsing bypass.
+ * @param {string | URL} proxyUrl - The URL, or the path relative to the upstream, to which the request should be proxied.
+ * @param {Object} [options] - Optional settings for the proxy route such as caching and the headers sent to the upstream.
  * @returns {Route} A route configuration object.
  */
 export const proxyRoute = (
 	path: string,
 	proxyUrl: string | URL | ProxyUrlFn,
-	options?: {
-		cache?: boolean;
+	options?: RouteGroupOptions & {
+		// Extra headers sent to the upstream
+		headers?: { [name: string]: string };
+		pattern?: URLPatternInit;
+		method?: string | string[];
 	},
 ): Route => ({
+	...getRouteOptions(options),
 	path,
-	cache: options?.cache ?? true,
-	handler: async (req: Request, params): Promise<Response | JsonValue> => {
+	fingerprint: JSON.stringify([String(proxyUrl), options?.headers ?? {}]),
+	handler: async (req: Request, params, route): Promise<Response | JsonValue> => {
 		let url = '';
 		if (proxyUrl instanceof Function) {
 			url = await proxyUrl(req, params);
 		} else {
 			url = proxyUrl.toString();
 		}
+		url = resolveUpstreamUrl(url, route?.upstream);
 		// Create requestURL object from the request's url
 		const requestUrl = new URL(req.url);
 		// Create proxyUrlObject from the proxyUrl
@@ -145,6 +172,9 @@ export const proxyRoute = (
 			if (clientIp) {
 				proxyHeaders.set("X-Forwarded-For", clientIp);
 			}
+			for (const [name, value] of Object.entries(options?.headers ?? {})) {
+				proxyHeaders.set(name, value);
+			}
 
 			const proxyRequestInit: RequestInit = {
 				method: req.method,
@@ -159,6 +189,14 @@ export const proxyRoute = (
 			
 			let response = await fetch(proxyUrlObject, proxyRequestInit);
 
+			// The cache revalidating an entry gets the upstream's 304 as is
+			if (response.status === 304) {
+				return new Response(null, {
+					status: 304,
+					headers: response.headers as Headers,
+				});
+			}
+
 			// Modify response to IDENTITY content-encoding
 			// @todo: Once bun has inbuilt support for Brotli,
 			// this won't be necessary
@@ -0,0 +1,126 @@
+import { hash } from "./hash.util";
+import { getPatternSignature } from "./route-tree.util";
+
+/**
+ * Header of cached entries holding the tag of the route that produced them.
+ */
+export const ROUTE_TAG_HEADER = "x-cache-route";
+
+/**
+ * Builds a tag identifying the URLs and methods served by a route. Two routes with the same tag
+ * serve the same cache entries, even across reloads.
+ *
+ * @param {CompiledRoute} route - The compiled route.
+ * @returns {string} The tag of the route.
+ */
+export const getRouteTag = (route: CompiledRoute): string =>
+	hash(`${getPatternSignature(route)}|${(route.methods ?? ["*"]).join(",")}`);
+
+/**
+ * Builds a fingerprint of a route definition. Routes sharing a tag but with different
+ * fingerprints are considered changed by a reload.
+ *
+ * @param {CompiledRoute} route - The compiled route.
+ * @returns {string} The fingerprint of the route.
+ */
+const getRouteFingerprint = (route: CompiledRoute): string =>
+	hash(
+		JSON.stringify([
+			route.cache,
+			route.upstream ?? "",
+			route.cors ?? {},
+			route.fingerprint ?? route.handler.toString(),
+		]),
+	);
+
+/**
+ * Records the route that produced a cacheable object, so that its entries can be purged
+ * when the route is removed or changed.
+ *
+ * @param {ResponseCacheableObject} responseObj - The object about to be cached.
+ * @param {CompiledRoute} route - The route that produced it.
+ * @returns {ResponseCacheableObject} The tagged object.
+ */
+export const tagCacheableObject = (
+	responseObj: ResponseCacheableObject,
+	route: CompiledRoute,
+): ResponseCacheableObject => {
+	const headers = new Headers(responseObj.headers);
+	headers.set(ROUTE_TAG_HEADER, getRouteTag(route));
+	responseObj.headers = Array.from(headers.entries());
+	return responseObj;
+};
+
+/**
+ * Deletes the cache entries produced by any of the given route tags.
+ *
+ * @param {CacheStore} store - The cache store to purge.
+ * @param {Set<string>} tags - Tags of the routes whose entries are deleted.
+ * @returns {Promise<number>} The number of deleted entries.
+ */
+export const purgeRouteEntries = async (
+	store: CacheStore,
+	tags: Set<string>,
+): Promise<number> => {
+	if (!tags.size) return 0;
+	let purged = 0;
+	for (const key of await store.keys()) {
+		const value = await store.get(key);
+		const tag = value && new Headers(value.headers).get(ROUTE_TAG_HEADER);
+		if (tag && tags.has(tag) && (await store.delete(key))) {
+			purged += 1;
+		}
+	}
+	return purged;
+};
+
+/**
+ * Atomically replaces the routes served by `run()`. Requests already being handled finish with the
+ * routes they started with, the cache is kept, and entries of removed or changed routes are
+ * optionally purged.
+ *
+ * @param {RoutesRef} routesRef - The routes reference given to `run()`.
+ * @param {CompiledRoute[]} nextRoutes - The new compiled routes.
+ * @param {Object} [options] - Set `purge` and `store` to delete the entries of removed or changed routes.
+ * @returns {Promise<{ added: number; removed: number; changed: number; purged: number }>} A summary of the reload.
+ */
+export const reloadRoutes = async (
+	routesRef: RoutesRef,
+	nextRoutes: CompiledRoute[],
+	options?: {
+		purge?: boolean;
+		store?: CacheStore;
+	},
+) => {
+	const previous = new Map(
+		routesRef.current.map((route) => [getRouteTag(route), getRouteFingerprint(route)]),
+	);
+	const next = new Map(
+		nextRoutes.map((route) => [getRouteTag(route), getRouteFingerprint(route)]),
+	);
+
+	const removedTags = new Set<string>();
+	const changedTags = new Set<string>();
+	for (const [tag, fingerprint] of previous) {
+		if (!next.has(tag)) {
+			removedTags.add(tag);
+		} else if (next.get(tag) !== fingerprint) {
+			changedTags.add(tag);
+		}
+	}
+	const added = Array.from(next.keys()).filter((tag) => !previous.has(tag)).length;
+
+	routesRef.current = nextRoutes;
+
+	const purged =
+		options?.purge && options.store
+			? await purgeRouteEntries(options.store, new Set([...removedTags, ...changedTags]))
+			: 0;
+
+	return {
+		added,
+		removed: removedTags.size,
+		changed: changedTags.size,
+		purged,
+	};
+};
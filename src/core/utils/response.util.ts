@@ -8,18 +8,20 @@ import { RouteError } from "./error.util";
  * @param {JsonValue | Uint8Array} data - The data to send in the response. Can be a JSON object or a Uint8Array.
  * @param {number} [status=200] - The HTTP status code for the response. Defaults to 200.
  * @param {Headers} [headers=new Headers()] - The headers to include in the response.
+ * @param {Partial<CorsConfig>} [cors] - Route specific CORS settings overriding the global ones.
  * @returns {Response} A new Response object with the specified data, status, and headers.
  */
 export const jsonResponse = (
 	data: JsonValue | Uint8Array,
 	status = 200,
 	headers = new Headers(),
+	cors?: Partial<CorsConfig>,
 ): Response => {
 	const contentType = headers.get("content-type");
 	if (!contentType) {
 		headers.set("content-type", "application/json");
 	}
-	setCORSHeaders(headers as Headers);
+	setCORSHeaders(headers as Headers, cors);
 
 	const body = data instanceof Uint8Array ? data : JSON.stringify(data);
 
@@ -44,6 +46,47 @@ export const notFoundResponse = () => {
 	);
 };
 
+/**
+ * Creates a standardized JSON response for a 405 Method Not Allowed error, listing the
+ * methods accepted by the resource in the `Allow` header.
+ *
+ * @param {string[]} allowedMethods - The methods accepted by the requested resource.
+ * @param {Partial<CorsConfig>} [cors] - The CORS settings of the resource, the global ones by default.
+ * @returns {Response} A Response object with a 405 status code and an `Allow` header.
+ */
+export const methodNotAllowedResponse = (
+	allowedMethods: string[],
+	cors?: Partial<CorsConfig>,
+) => {
+	const headers = new Headers();
+	headers.set("allow", allowedMethods.join(", "));
+	return jsonResponse(
+		{
+			error: "Method not allowed!",
+			code: 405,
+		},
+		405,
+		headers,
+		cors,
+	);
+};
+
+/**
+ * Creates a standardized JSON response for a 504 Gateway Timeout error, used when a client asks
+ * for a cached response only and none is available.
+ *
+ * @returns {Response} A Response object with a 504 status code.
+ */
+export const gatewayTimeoutResponse = () => {
+	return jsonResponse(
+		{
+			error: "Not in cache!",
+			code: 504,
+		},
+		504,
+	);
+};
+
 /**
  * Creates a JSON response for an error. This function is designed to handle errors gracefully by providing a standardized
  * JSON structure for error responses. It differentiates between `RouteError` instances and other types of errors.
@@ -0,0 +1,226 @@
+/**
+ * Kinds of pattern segments, the higher the more specific.
+ */
+const SEGMENT_RANK = {
+	WILDCARD: 0,
+	PATTERN: 1,
+	PARAM: 2,
+	STATIC: 3,
+};
+
+type RankedRoute = {
+	route: CompiledRoute;
+	// Position of the route once all routes are sorted by specificity
+	order: number;
+};
+
+type RouteTreeNode = {
+	children: Map<string, RouteTreeNode>;
+	routes: RankedRoute[];
+};
+
+export type RouteTree = {
+	root: RouteTreeNode;
+};
+
+/**
+ * Ranks a single pathname segment of a URLPattern. Static segments beat named parameters,
+ * which beat segments using custom regular expressions or groups, which beat wildcards.
+ *
+ * @param {string} segment - A segment of the canonical pattern pathname.
+ * @returns {number} The rank of the segment.
+ */
+const rankSegment = (segment: string): number => {
+	if (!/[:*(){}?+\\]/.test(segment)) return SEGMENT_RANK.STATIC;
+	if (segment === "*" || /^:\w+[*+]$/.test(segment) || segment === "(.*)") {
+		return SEGMENT_RANK.WILDCARD;
+	}
+	if (/^:\w+\??$/.test(segment)) return SEGMENT_RANK.PARAM;
+	return SEGMENT_RANK.PATTERN;
+};
+
+/**
+ * Ranks the hostname component of a URLPattern: a fixed hostname beats a hostname pattern,
+ * which beats a route that does not constrain the hostname at all.
+ *
+ * @param {string} hostname - The canonical hostname of the pattern.
+ * @returns {number} The rank of the hostname.
+ */
+const rankHostname = (hostname: string): number => {
+	if (hostname === "*") return 0;
+	return /[:*(){}?+\\]/.test(hostname) ? 1 : 2;
+};
+
+/**
+ * Splits a pattern or request pathname into its segments, without the leading slash.
+ *
+ * @param {string} pathname - The pathname to split.
+ * @returns {string[]} The pathname segments.
+ */
+const splitPathname = (pathname: string): string[] =>
+	pathname.replace(/^\//, "").split("/");
+
+/**
+ * Computes the specificity of a route as a list of numbers to be compared lexicographically:
+ * the hostname rank, then the rank of each pathname segment.
+ *
+ * @param {CompiledRoute} route - The compiled route.
+ * @returns {number[]} The specificity of the route.
+ */
+const getSpecificity = (route: CompiledRoute): number[] => [
+	rankHostname(route.path.hostname),
+	...splitPathname(route.path.pathname).map(rankSegment),
+];
+
+/**
+ * Compares two routes by specificity. Segment by segment the more specific kind wins, a longer
+ * pattern beats its own prefix, a route restricted to some methods beats a route accepting any
+ * method, and the route declared last wins among otherwise identical routes.
+ *
+ * @returns {number} A negative number if `a` should be tried before `b`.
+ */
+const compareRoutes = (
+	a: { route: CompiledRoute; specificity: number[]; index: number },
+	b: { route: CompiledRoute; specificity: number[]; index: number },
+): number => {
+	const length = Math.min(a.specificity.length, b.specificity.length);
+	for (let i = 0; i < length; i += 1) {
+		if (a.specificity[i] !== b.specificity[i]) {
+			return b.specificity[i] - a.specificity[i];
+		}
+	}
+	if (a.specificity.length !== b.specificity.length) {
+		return b.specificity.length - a.specificity.length;
+	}
+	if (Boolean(a.route.methods) !== Boolean(b.route.methods)) {
+		return a.route.methods ? -1 : 1;
+	}
+	return b.index - a.index;
+};
+
+/**
+ * Builds a signature identifying the URLs a route matches, ignoring parameter names, so that
+ * `/users/:id` and `/users/:userId` are recognised as the same pattern.
+ *
+ * @param {CompiledRoute} route - The compiled route.
+ * @returns {string} The signature of the route pattern.
+ */
+export const getPatternSignature = (route: CompiledRoute): string => {
+	const { protocol, username, password, hostname, port, pathname, search, hash } =
+		route.path;
+	return [protocol, username, password, hostname, port, pathname, search, hash]
+		.map((component) => component.replace(/:\w+/g, ":"))
+		.join("|");
+};
+
+/**
+ * Warns about routes that can never be matched for some methods because a route with the
+ * same pattern takes precedence over them.
+ *
+ * @param {{ route: CompiledRoute; index: number }[]} sortedRoutes - Routes sorted by precedence.
+ */
+const warnShadowedRoutes = (
+	sortedRoutes: { route: CompiledRoute; index: number }[],
+) => {
+	const seen = new Map<string, { methods?: string[]; index: number }[]>();
+	for (const { route, index } of sortedRoutes) {
+		const signature = getPatternSignature(route);
+		const winners = seen.get(signature) ?? [];
+		for (const winner of winners) {
+			const shadowedMethods = !route.methods
+				? winner.methods ?? ["*"]
+				: route.methods.filter((m) => !winner.methods || winner.methods.includes(m));
+			if (shadowedMethods.length) {
+				console.warn(
+					`Route #${index} (${route.path.pathname}) is shadowed by route #${
+						winner.index
+					} for methods: ${shadowedMethods.join(", ")}`,
+				);
+			}
+		}
+		winners.push({ methods: route.methods, index });
+		seen.set(signature, winners);
+	}
+};
+
+/**
+ * Creates an empty node of the route tree.
+ *
+ * @returns {RouteTreeNode} The new node.
+ */
+const createNode = (): RouteTreeNode => ({
+	children: new Map(),
+	routes: [],
+});
+
+/**
+ * Builds a prefix tree of the routes. Each route is attached to the node reached by its leading
+ * static segments, so a lookup only has to test the routes found along the request path instead of
+ * every route. Routes are ranked by specificity beforehand and routes shadowed by an identical
+ * pattern are reported.
+ *
+ * @param {CompiledRoute[]} compiledRoutes - The compiled routes.
+ * @returns {RouteTree} The route tree.
+ */
+export const buildRouteTree = (compiledRoutes: CompiledRoute[]): RouteTree => {
+	const sortedRoutes = compiledRoutes
+		.map((route, index) => ({
+			route,
+			index,
+			specificity: getSpecificity(route),
+		}))
+		.sort(compareRoutes);
+
+	warnShadowedRoutes(sortedRoutes);
+
+	const root = createNode();
+	sortedRoutes.forEach(({ route }, order) => {
+		let node = root;
+		for (const segment of splitPathname(route.path.pathname)) {
+			if (rankSegment(segment) !== SEGMENT_RANK.STATIC) break;
+			let child = node.children.get(segment);
+			if (!child) {
+				child = createNode();
+				node.children.set(segment, child);
+			}
+			node = child;
+		}
+		node.routes.push({ route, order });
+	});
+	return { root };
+};
+
+const routeTrees = new WeakMap<CompiledRoute[], RouteTree>();
+
+/**
+ * Returns the route tree of a list of compiled routes, building it on first use.
+ *
+ * @param {CompiledRoute[]} compiledRoutes - The compiled routes.
+ * @returns {RouteTree} The route tree.
+ */
+export const getRouteTree = (compiledRoutes: CompiledRoute[]): RouteTree => {
+	let tree = routeTrees.get(compiledRoutes);
+	if (!tree) {
+		tree = buildRouteTree(compiledRoutes);
+		routeTrees.set(compiledRoutes, tree);
+	}
+	return tree;
+};
+
+/**
+ * Collects the routes that may match a URL, ordered from the most to the least specific.
+ *
+ * @param {RouteTree} tree - The route tree.
+ * @param {string} url - The request URL.
+ * @returns {CompiledRoute[]} The candidate routes.
+ */
+export const getCandidateRoutes = (tree: RouteTree, url: string): CompiledRoute[] => {
+	const candidates: RankedRoute[] = [...tree.root.routes];
+	let node: RouteTreeNode | undefined = tree.root;
+	for (const segment of splitPathname(new URL(url).pathname)) {
+		node = node.children.get(segment);
+		if (!node) break;
+		candidates.push(...node.routes);
+	}
+	return candidates.sort((a, b) => a.order - b.order).map(({ route }) => route);
+};
@@ -1,48 +1,274 @@
 import { URLPattern } from "urlpattern-polyfill/urlpattern";
+import { getCandidateRoutes, getRouteTree } from "./route-tree.util";
+
+/**
+ * Normalizes the methods declared on a route to their upper-cased, de-duplicated form.
+ * A route accepting GET implicitly accepts HEAD as well.
+ *
+ * @param {string | string[]} [method] - A method or list of methods declared on the route.
+ * @returns {string[] | undefined} The normalized methods, or undefined if the route accepts any method.
+ */
+const normalizeMethods = (method?: string | string[]): string[] | undefined => {
+  if (!method) return undefined;
+  const methods = new Set(
+    (Array.isArray(method) ? method : [method]).map((m) => m.trim().toUpperCase()),
+  );
+  if (methods.has("GET")) {
+    methods.add("HEAD");
+  }
+  return Array.from(methods);
+};
+
+/**
+ * Creates a group of routes sharing a path prefix and common options. Groups can be nested and are
+ * flattened into plain routes by `compileRoute`.
+ *
+ * @example
+ * group("/api", { upstream: "https://api.example.test/v2" }, [
+ *   proxyRoute("/users/:id", "/users/:id"),
+ *   group("/admin", { cache: false }, [proxyRoute("/stats", "/admin/stats")]),
+ * ]);
+ *
+ * @param {string} prefix - The path prefix of every route in the group.
+ * @param {RouteGroupOptions} options - Cache, CORS, upstream, hostname and middleware settings shared by the routes.
+ * @param {RouteDefinition[]} routes - The routes and nested groups of the group.
+ * @returns {RouteGroup} The route group.
+ */
+export const group = (
+  prefix: string,
+  options: RouteGroupOptions,
+  routes: RouteDefinition[],
+): RouteGroup => ({
+  prefix,
+  options,
+  routes,
+});
+
+/**
+ * Joins a path prefix and a path, avoiding duplicated or missing slashes.
+ *
+ * @param {string} prefix - The path prefix.
+ * @param {string} path - The path to append.
+ * @returns {string} The joined path.
+ */
+const joinPaths = (prefix: string, path: string): string => {
+  const trimmedPrefix = prefix.replace(/\/+$/, "");
+  const trimmedPath = path.replace(/^\/+/, "");
+  if (!trimmedPath) return trimmedPrefix || "/";
+  return `${trimmedPrefix}/${trimmedPath}`;
+};
+
+/**
+ * Resolves a URL against an upstream base URL. Absolute URLs are returned as is, relative URLs are
+ * appended to the upstream, keeping the upstream's own path.
+ *
+ * @param {string} url - An absolute URL, or a path relative to the upstream.
+ * @param {string} [upstream] - The upstream base URL.
+ * @returns {string} The resolved URL.
+ * @throws {Error} Throws an error if the URL is relative and no upstream is provided.
+ */
+export const resolveUpstreamUrl = (url: string, upstream?: string): string => {
+  if (/^[a-z][a-z\d+\-.]*:\/\//i.test(url)) return url;
+  if (!upstream) {
+    throw new Error(`Relative URL "${url}" requires an upstream`);
+  }
+  return joinPaths(upstream, url);
+};
+
+/**
+ * Merges the options of a group into the options of one of its routes or nested groups. Values set on
+ * the child win, CORS settings are merged key by key and relative upstreams are resolved against the
+ * parent's upstream.
+ *
+ * @param {RouteGroupOptions} parent - The options inherited from the enclosing groups.
+ * @param {RouteGroupOptions} child - The options of the route or nested group.
+ * @returns {RouteGroupOptions} The merged options.
+ */
+const mergeGroupOptions = (
+  parent: RouteGroupOptions,
+  child: RouteGroupOptions,
+): RouteGroupOptions => ({
+  cache: child.cache ?? parent.cache,
+  maxAge: child.maxAge ?? parent.maxAge,
+  staleWhileRevalidate: child.staleWhileRevalidate ?? parent.staleWhileRevalidate,
+  staleIfError: child.staleIfError ?? parent.staleIfError,
+  cacheableStatuses: child.cacheableStatuses ?? parent.cacheableStatuses,
+  negativeCache: child.negativeCache ?? parent.negativeCache,
+  upstreamCacheControl: child.upstreamCacheControl ?? parent.upstreamCacheControl,
+  clientCacheControl: child.clientCacheControl ?? parent.clientCacheControl,
+  coalesceTimeout: child.coalesceTimeout ?? parent.coalesceTimeout,
+  vary: child.vary ?? parent.vary,
+  normalize: child.normalize ?? parent.normalize,
+  cors: parent.cors || child.cors ? { ...parent.cors, ...child.cors } : undefined,
+  upstream: child.upstream
+    ? resolveUpstreamUrl(child.upstream, parent.upstream)
+    : parent.upstream,
+  hostname: child.hostname ?? parent.hostname,
+  middleware: parent.middleware || child.middleware
+    ? [...(parent.middleware ?? []), ...(child.middleware ?? [])]
+    : undefined,
+});
+
+/**
+ * Flattens route groups into plain routes, prefixing their paths and applying the options inherited
+ * from every enclosing group.
+ *
+ * @param {RouteDefinition[]} definitions - Routes and route groups.
+ * @param {string} [prefix=''] - The path prefix inherited from the enclosing groups.
+ * @param {RouteGroupOptions} [options={}] - The options inherited from the enclosing groups.
+ * @returns {Route[]} The flattened routes.
+ */
+export const flattenRoutes = (
+  definitions: RouteDefinition[],
+  prefix = "",
+  options: RouteGroupOptions = {},
+): Route[] => {
+  return definitions.flatMap((definition): Route[] => {
+    if ("routes" in definition) {
+      return flattenRoutes(
+        definition.routes,
+        joinPaths(prefix, definition.prefix),
+        mergeGroupOptions(options, definition.options),
+      );
+    }
+    return [{
+      ...definition,
+      ...mergeGroupOptions(options, definition),
+      path: prefix ? joinPaths(prefix, definition.path) : definition.path,
+    }];
+  });
+};
 
 /**
  * Compiles a list of routes into a list of compiled routes. Each route is compiled using URLPattern,
- * and default cache settings are applied if not explicitly provided.
+ * and default cache settings are applied if not explicitly provided. The pattern matches the route's
+ * path, its optional hostname and any additional URLPattern components provided in `pattern`.
+ * Route groups are flattened first, and routes declaring a handler per method are expanded into one
+ * compiled route per method. The route tree used for matching is built right away, reporting shadowed routes at compile time.
  *
- * @param {Route[]} routes - An array of route objects to be compiled.
+ * @param {RouteDefinition[]} routes - An array of route objects and route groups to be compiled.
  * @returns {CompiledRoute[]} An array of compiled route objects.
  */
-export const compileRoute = (routes: Route[]): CompiledRoute[] => {
-  return routes.map(({ path, ...rest }) => ({
-    path: new URLPattern({ pathname: path }),
-    cache: rest.cache ?? true,
-    ...rest,
-  }));
+export const compileRoute = (routes: RouteDefinition[]): CompiledRoute[] => {
+  const compiledRoutes = flattenRoutes(routes).flatMap(({ path, hostname, pattern: patternInit, method, handler, ...rest }) => {
+    const pattern = new URLPattern({
+      pathname: path,
+      ...(hostname ? { hostname } : {}),
+      ...patternInit,
+    });
+    const cache = rest.cache ?? true;
+    if (handler instanceof Function) {
+      return [{
+        ...rest,
+        path: pattern,
+        cache,
+        methods: normalizeMethods(method),
+        handler,
+      }];
+    }
+    return Object.entries(handler).map(([handlerMethod, methodHandler]) => ({
+      ...rest,
+      path: pattern,
+      cache,
+      methods: normalizeMethods(handlerMethod),
+      handler: methodHandler,
+    }));
+  });
+  getRouteTree(compiledRoutes);
+  return compiledRoutes;
+};
+
+/**
+ * Checks if a compiled route accepts the given HTTP method.
+ *
+ * @param {CompiledRoute} route - The compiled route.
+ * @param {string} method - The HTTP method of the request.
+ * @returns {boolean} True if the route accepts the method.
+ */
+const acceptsMethod = (route: CompiledRoute, method: string): boolean => {
+  return !route.methods || route.methods.includes(method.toUpperCase());
 };
 
 /**
- * Finds the first route that matches the given request from a list of compiled routes. It returns the matching route
- * and the extracted parameters from the URL.
+ * Extracts the parameters of a successful pattern match. Pathname groups are always exposed,
+ * hostname groups only when the route constrains the hostname. Pathname groups take precedence
+ * over hostname groups sharing the same name.
+ *
+ * @param {CompiledRoute} route - The compiled route that matched.
+ * @param {URLPatternResult} result - The result of executing the route's pattern.
+ * @returns {RouteParams} The parameters extracted from the URL.
+ */
+const getMatchParams = (route: CompiledRoute, result: URLPatternResult): RouteParams => {
+  if (route.path.hostname === "*") {
+    return result.pathname.groups;
+  }
+  return {
+    ...result.hostname.groups,
+    ...result.pathname.groups,
+  };
+};
+
+/**
+ * Finds the most specific route that matches the given request from a list of compiled routes. Static
+ * segments beat parameters, which beat wildcards; see `route-tree.util` for the full ranking. It returns
+ * the matching route and the extracted parameters from the URL. Routes that do not accept the method
+ * are skipped.
  *
  * @param {Request} request - The HTTP request object.
  * @param {CompiledRoute[]} compiledRoutes - An array of compiled routes to match against the request.
- * @returns {{ route: CompiledRoute, params: { [key: string]: string | undefined; }; } | undefined} An object containing the matched route and parameters, or undefined if no match is found.
+ * @param {string} [method=request.method] - The HTTP method to match routes against.
+ * @returns {RouteMatch | undefined} An object containing the matched route and parameters, or undefined if no match is found.
  */
-export const findMatchedRoute = (request: Request, compiledRoutes: CompiledRoute[]): { route: CompiledRoute; params: { [key: string]: string | undefined; }; } | undefined => {
-  let match: {
-    route: CompiledRoute;
-    params: { [key: string]: string | undefined; };
-  } | undefined;
-
-  let i = compiledRoutes.length
-  while(!match && i > 0) {
-    i -= 1;
-    const route = compiledRoutes[i];
+export const findMatchedRoute = (
+  request: Request,
+  compiledRoutes: CompiledRoute[],
+  method = request.method,
+): RouteMatch | undefined => {
+  const candidates = getCandidateRoutes(getRouteTree(compiledRoutes), request.url);
+  for (const route of candidates) {
+    if (!acceptsMethod(route, method)) continue;
     const execRoute = route.path.exec(request.url);
-    const params = execRoute?.pathname?.groups;
-    if (params) {
-      match = {
+    if (execRoute) {
+      return {
         route,
-        params,
+        params: getMatchParams(route, execRoute),
       };
     }
   }
-  return match;
+  return undefined;
+};
+
+/**
+ * Finds the routes whose pattern matches the request URL, regardless of the request method, the most
+ * specific first.
+ *
+ * @param {Request} request - The HTTP request object.
+ * @param {CompiledRoute[]} compiledRoutes - An array of compiled routes to match against the request.
+ * @returns {CompiledRoute[]} The matching routes, empty if no route matches the URL.
+ */
+export const findPathRoutes = (request: Request, compiledRoutes: CompiledRoute[]): CompiledRoute[] =>
+  getCandidateRoutes(getRouteTree(compiledRoutes), request.url).filter((route) =>
+    route.path.test(request.url),
+  );
+
+/**
+ * Lists the methods accepted by the routes whose pattern matches the request URL, regardless of the
+ * request method. Used to build the `Allow` header of a 405 Method Not Allowed response.
+ *
+ * @param {Request} request - The HTTP request object.
+ * @param {CompiledRoute[]} compiledRoutes - An array of compiled routes to match against the request.
+ * @returns {string[]} The sorted list of allowed methods, empty if no route matches the URL.
+ */
+export const getAllowedMethods = (request: Request, compiledRoutes: CompiledRoute[]): string[] => {
+  const allowedMethods = new Set<string>();
+  for (const route of findPathRoutes(request, compiledRoutes)) {
+    if (route.methods) {
+      for (const method of route.methods) {
+        allowedMethods.add(method);
+      }
+    }
+  }
+  return Array.from(allowedMethods).sort();
 };
 
 /**
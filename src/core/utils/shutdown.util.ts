@@ -0,0 +1,93 @@
+import type { Server } from "bun";
+import { BackgroundTasks, drainBackgroundTasks } from "./background.util";
+
+type ShutdownOptions = {
+	// Maximum time to wait for in-flight requests and background work, in milliseconds
+	timeout?: number;
+	// Last step of the shutdown, e.g. writing the cache snapshot
+	onShutdown?: () => Promise<void> | void;
+	// Background revalidations of the server, waited for along with the default background tasks
+	backgroundTasks?: BackgroundTasks;
+};
+
+/**
+ * Waits until the server has no pending request anymore.
+ *
+ * @param {Server} server - The Bun server.
+ * @param {number} deadline - Timestamp after which waiting stops.
+ * @returns {Promise<boolean>} True if all requests completed before the deadline.
+ */
+const waitForPendingRequests = async (
+	server: Server,
+	deadline: number,
+): Promise<boolean> => {
+	while (server.pendingRequests > 0) {
+		if (Date.now() >= deadline) return false;
+		await Bun.sleep(25);
+	}
+	return true;
+};
+
+/**
+ * Shuts the server down gracefully: stops accepting new connections, waits for in-flight requests
+ * and background revalidations to complete, then runs `onShutdown`. Work still pending after the
+ * timeout is abandoned, `onShutdown` always runs.
+ *
+ * @param {Server} server - The Bun server.
+ * @param {ShutdownOptions} [options] - The timeout, the background tasks and the final shutdown step.
+ */
+export const shutdownServer = async (
+	server: Server,
+	options?: ShutdownOptions,
+) => {
+	const deadline = Date.now() + (options?.timeout ?? 10000);
+
+	// Stop accepting connections, requests in progress are not interrupted
+	server.stop();
+
+	if (!(await waitForPendingRequests(server, deadline))) {
+		console.warn(
+			`Shutdown timeout: ${server.pendingRequests} request(s) still in progress`,
+		);
+	}
+	const remaining = Math.max(deadline - Date.now(), 0);
+	const drained = await Promise.all([
+		drainBackgroundTasks(remaining),
+		options?.backgroundTasks?.drain(remaining) ?? true,
+	]);
+	if (drained.includes(false)) {
+		console.warn("Shutdown timeout: background revalidations still in progress");
+	}
+	await options?.onShutdown?.();
+};
+
+/**
+ * Shuts the server down gracefully on SIGTERM and SIGINT, then exits the process. A second signal
+ * received during the shutdown exits immediately.
+ *
+ * @param {Server} server - The Bun server.
+ * @param {ShutdownOptions} [options] - The timeout and the final shutdown step.
+ */
+export const registerGracefulShutdown = (
+	server: Server,
+	options?: ShutdownOptions,
+) => {
+	let shuttingDown = false;
+	const onSignal = async (signal: NodeJS.Signals) => {
+		if (shuttingDown) {
+			console.warn(`Received ${signal} again, exiting immediately`);
+			process.exit(1);
+		}
+		shuttingDown = true;
+		console.log(`Received ${signal}, shutting down gracefully...`);
+		try {
+			await shutdownServer(server, options);
+			process.exit(0);
+		} catch (ex) {
+			console.error("Error during shutdown:", ex);
+			process.exit(1);
+		}
+	};
+	process.on("SIGTERM", onSignal);
+	process.on("SIGINT", onSignal);
+};
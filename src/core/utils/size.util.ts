@@ -0,0 +1,26 @@
+/**
+ * Bytes accounted for an entry besides its content: the object, its arrays and the bookkeeping
+ * of the cache.
+ */
+export const ENTRY_OVERHEAD = 64;
+
+/**
+ * Bytes accounted for each header besides its name and value.
+ */
+export const HEADER_OVERHEAD = 16;
+
+/**
+ * Computes the size accounted for a cached response: its body, its headers and a fixed overhead.
+ * Unlike serializing the response, nothing is copied, so it is cheap enough to run on every insert.
+ *
+ * @param {ResponseCacheableObject} obj - The cached response.
+ * @param {string} [key] - The key of the entry, accounted for when given.
+ * @returns {number} The size in bytes.
+ */
+export const sizeOfCacheableObject = (obj: ResponseCacheableObject, key?: string): number => {
+	let size = ENTRY_OVERHEAD + obj.body.byteLength + (key?.length ?? 0);
+	for (const [name, value] of obj.headers) {
+		size += HEADER_OVERHEAD + name.length + value.length;
+	}
+	return size;
+};
@@ -0,0 +1,192 @@
+import { Database } from "bun:sqlite";
+import { sizeOfCacheableObject } from "./size.util";
+
+type SqliteCacheStoreOptions = {
+	// Database file, ":memory:" keeps the entries in memory
+	path: string;
+	// Size in bytes beyond which the least recently used entries are evicted, unbounded when unset
+	maxSize?: number;
+	// Share of maxSize the store is brought back to once it is exceeded, defaults to 0.9
+	evictionTarget?: number;
+};
+
+type EntryRow = {
+	status: number;
+	headers: string;
+	body: Uint8Array;
+	size: number;
+};
+
+/**
+ * Cache store persisting the responses in a SQLite database, so that they survive restarts
+ * without being loaded into memory. Once the store exceeds its maximum size, the least recently
+ * used entries are evicted in the background.
+ */
+export class SqliteCacheStore implements CacheStore {
+	private db: Database;
+	private maxSize?: number;
+	private evictionTarget: number;
+	// Sum of the entry sizes, kept in sync with the database
+	private totalSize: number;
+	private evictionTimer: Timer | null = null;
+
+	constructor(options: SqliteCacheStoreOptions) {
+		this.db = new Database(options.path, { create: true });
+		this.maxSize = options.maxSize;
+		this.evictionTarget = options.evictionTarget ?? 0.9;
+		this.db.exec("PRAGMA journal_mode = WAL");
+		this.db.exec(`CREATE TABLE IF NOT EXISTS entries (
+			key TEXT PRIMARY KEY,
+			status INTEGER NOT NULL,
+			headers TEXT NOT NULL,
+			body BLOB NOT NULL,
+			size INTEGER NOT NULL,
+			stored_at INTEGER NOT NULL,
+			accessed_at INTEGER NOT NULL
+		)`);
+		this.db.exec(
+			"CREATE INDEX IF NOT EXISTS entries_accessed_at ON entries (accessed_at)",
+		);
+		this.totalSize =
+			this.db
+				.query<{ total: number | null }, []>("SELECT SUM(size) AS total FROM entries")
+				.get()?.total ?? 0;
+	}
+
+	async get(key: string) {
+		return (await this.getEntry(key))?.value;
+	}
+
+	async getEntry(key: string) {
+		const row = this.db
+			.query<EntryRow, [string]>(
+				"SELECT status, headers, body, size FROM entries WHERE key = ?",
+			)
+			.get(key);
+		if (!row) return undefined;
+		this.db
+			.query("UPDATE entries SET accessed_at = ? WHERE key = ?")
+			.run(Date.now(), key);
+		return {
+			value: {
+				body: new Uint8Array(row.body),
+				status: row.status,
+				headers: JSON.parse(row.headers),
+			},
+			size: row.size,
+		};
+	}
+
+	async set(key: string, value: ResponseCacheableObject) {
+		const headers = JSON.stringify(value.headers);
+		const size = sizeOfCacheableObject(value, key);
+		const now = Date.now();
+		this.db.transaction(() => {
+			const previous = this.db
+				.query<{ size: number }, [string]>("SELECT size FROM entries WHERE key = ?")
+				.get(key);
+			this.db
+				.query(
+					`INSERT OR REPLACE INTO entries (key, status, headers, body, size, stored_at, accessed_at)
+					VALUES (?, ?, ?, ?, ?, ?, ?)`,
+				)
+				.run(key, value.status, headers, value.body, size, now, now);
+			this.totalSize += size - (previous?.size ?? 0);
+		})();
+		this.scheduleEviction();
+	}
+
+	async delete(key: string) {
+		const row = this.db
+			.query<{ size: number }, [string]>("DELETE FROM entries WHERE key = ? RETURNING size")
+			.get(key);
+		if (!row) return false;
+		this.totalSize -= row.size;
+		return true;
+	}
+
+	async has(key: string) {
+		return Boolean(this.db.query("SELECT 1 FROM entries WHERE key = ?").get(key));
+	}
+
+	async keys() {
+		return this.db
+			.query<{ key: string }, []>("SELECT key FROM entries")
+			.all()
+			.map((row) => row.key);
+	}
+
+	async clear() {
+		this.db.exec("DELETE FROM entries");
+		this.totalSize = 0;
+	}
+
+	async touch(keys: string[]) {
+		const touchEntry = this.db.query("UPDATE entries SET accessed_at = ? WHERE key = ?");
+		const now = Date.now();
+		this.db.transaction(() => {
+			for (const key of keys) {
+				touchEntry.run(now, key);
+			}
+		})();
+	}
+
+	async stats() {
+		const row = this.db
+			.query<{ entries: number }, []>("SELECT COUNT(*) AS entries FROM entries")
+			.get();
+		return { entries: row?.entries ?? 0, size: this.totalSize, maxSize: this.maxSize };
+	}
+
+	/**
+	 * Evicts the entries in the background once the store exceeds its maximum size, so that
+	 * writes do not wait for it.
+	 */
+	private scheduleEviction() {
+		if (this.maxSize === undefined || this.totalSize <= this.maxSize) return;
+		if (this.evictionTimer) return;
+		this.evictionTimer = setTimeout(() => {
+			this.evictionTimer = null;
+			this.evict();
+		}, 0);
+	}
+
+	/**
+	 * Deletes the least recently used entries until the store is back to its eviction target.
+	 *
+	 * @returns {number} The number of evicted entries.
+	 */
+	evict(): number {
+		if (this.maxSize === undefined || this.totalSize <= this.maxSize) return 0;
+		const targetSize = this.maxSize * this.evictionTarget;
+		const selectOldest = this.db.query<{ key: string; size: number }, [number]>(
+			"SELECT key, size FROM entries ORDER BY accessed_at ASC LIMIT ?",
+		);
+		const deleteEntry = this.db.query("DELETE FROM entries WHERE key = ?");
+		let evicted = 0;
+		while (this.totalSize > targetSize) {
+			const rows = selectOldest.all(100);
+			if (!rows.length) break;
+			this.db.transaction(() => {
+				for (const row of rows) {
+					if (this.totalSize <= targetSize) break;
+					deleteEntry.run(row.key);
+					this.totalSize -= row.size;
+					evicted += 1;
+				}
+			})();
+		}
+		return evicted;
+	}
+
+	/**
+	 * Closes the database, pending background eviction included.
+	 */
+	close() {
+		if (this.evictionTimer) {
+			clearTimeout(this.evictionTimer);
+			this.evictionTimer = null;
+		}
+		this.db.close();
+	}
+}
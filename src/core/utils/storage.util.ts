@@ -1,11 +1,285 @@
+import { open, readFile, rename, unlink } from "node:fs/promises";
+import { FileLockError } from "./error.util";
+import { checksum } from "./hash.util";
+import { sizeOfCacheableObject } from "./size.util";
+
+/**
+ * Checks if a process is still running.
+ *
+ * @param {number} pid - The process id.
+ * @returns {boolean} True if the process exists.
+ */
+const isProcessAlive = (pid: number): boolean => {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (ex) {
+		// EPERM means the process exists but belongs to another user
+		return (ex as NodeJS.ErrnoException).code === "EPERM";
+	}
+};
+
+/**
+ * Takes an exclusive lock on a file by creating `<filename>.lock` holding the process id. A lock
+ * left behind by a process that no longer runs is taken over.
+ *
+ * @param {string} filename - The file to lock.
+ * @returns {Promise<() => Promise<void>>} A function releasing the lock.
+ * @throws {FileLockError} Throws an error if another running process holds the lock.
+ */
+export async function acquireFileLock(
+	filename: string,
+): Promise<() => Promise<void>> {
+	const lockPath = `${filename}.lock`;
+	for (let attempt = 0; attempt < 2; attempt += 1) {
+		try {
+			const handle = await open(lockPath, "wx");
+			await handle.writeFile(String(process.pid));
+			await handle.close();
+			return async () => {
+				await unlink(lockPath).catch(() => undefined);
+			};
+		} catch (ex) {
+			if ((ex as NodeJS.ErrnoException).code !== "EEXIST") throw ex;
+		}
+		const owner = Number.parseInt(
+			await readFile(lockPath, "utf-8").catch(() => ""),
+			10,
+		);
+		if (owner && owner !== process.pid && isProcessAlive(owner)) {
+			throw new FileLockError(filename, owner);
+		}
+		// Stale lock
+		await unlink(lockPath).catch(() => undefined);
+	}
+	throw new FileLockError(filename);
+}
+
+/**
+ * Snapshot files start with these bytes, followed by the format version.
+ */
+export const SNAPSHOT_MAGIC = Buffer.from("BBLZ", "latin1");
+
+/**
+ * Current version of the snapshot format. Version 1 is the original format without a file header,
+ * headers joined with ":" and "\n" and no checksum; it is still read and rewritten as the current
+ * version on the next snapshot.
+ */
+export const SNAPSHOT_VERSION = 2;
+
+/**
+ * Size of the file header: magic bytes and version.
+ */
+const FILE_HEADER_SIZE = SNAPSHOT_MAGIC.length + 2;
+
+/**
+ * Size of the record header: payload length and payload checksum.
+ */
+const RECORD_HEADER_SIZE = 8;
+
+/**
+ * Encodes a number as a 4 bytes little-endian unsigned integer.
+ *
+ * @param {number} value - The number to encode.
+ * @returns {Buffer} The encoded number.
+ */
+const uint32 = (value: number): Buffer => {
+	const buffer = Buffer.alloc(4);
+	buffer.writeUInt32LE(value);
+	return buffer;
+};
+
+/**
+ * Encodes a string prefixed with its byte length, so that it may contain any character.
+ *
+ * @param {string} value - The string to encode.
+ * @returns {Buffer} The encoded string.
+ */
+const lengthPrefixed = (value: string): Buffer => {
+	const bytes = Buffer.from(value, "utf-8");
+	return Buffer.concat([uint32(bytes.length), bytes]);
+};
+
+/**
+ * Encodes a cache entry as a record: payload length, payload checksum, then the payload made of
+ * the request ID, the status, the header count, each header name and value, and the body.
+ *
+ * @param {DataArray} item - The cache entry.
+ * @returns {Buffer} The encoded record.
+ */
+const encodeRecord = (item: DataArray): Buffer => {
+	const [requestId, { value }] = item;
+	const headers = (Array.from(value.headers) as [string, string][]).filter(
+		(header) => Array.isArray(header) && header.length === 2,
+	);
+
+	const status = Buffer.alloc(4);
+	status.writeInt32LE(value.status);
+
+	const payload = Buffer.concat([
+		lengthPrefixed(requestId),
+		status,
+		uint32(headers.length),
+		...headers.flatMap(([name, headerValue]) => [
+			lengthPrefixed(name),
+			lengthPrefixed(headerValue),
+		]),
+		uint32(value.body.length),
+		value.body,
+	]);
+	return Buffer.concat([uint32(payload.length), uint32(checksum(payload)), payload]);
+};
+
+/**
+ * Decodes the payload of a record. Out of bounds reads throw, which marks the record as corrupt.
+ *
+ * @param {Buffer} payload - The payload of the record.
+ * @returns {DataArray} The cache entry.
+ */
+const decodeRecord = (payload: Buffer): DataArray => {
+	let offset = 0;
+	const readUInt32 = () => {
+		const value = payload.readUInt32LE(offset);
+		offset += 4;
+		return value;
+	};
+	const readBytes = (length: number) => {
+		if (offset + length > payload.length) {
+			throw new RangeError("Record is truncated");
+		}
+		const bytes = payload.subarray(offset, offset + length);
+		offset += length;
+		return bytes;
+	};
+	const readString = () => readBytes(readUInt32()).toString("utf-8");
+
+	const requestId = readString();
+	const status = payload.readInt32LE(offset);
+	offset += 4;
+	const headers: HeadersEntryType[] = [];
+	for (let count = readUInt32(); count > 0; count -= 1) {
+		headers.push([readString(), readString()] as HeadersEntryType);
+	}
+	const body = new Uint8Array(readBytes(readUInt32()));
+	if (offset !== payload.length) {
+		throw new RangeError("Record has trailing bytes");
+	}
+
+	return [
+		requestId,
+		{
+			value: { body, status, headers },
+			size: sizeOfCacheableObject({ body, status, headers }, requestId),
+		},
+	];
+};
+
+/**
+ * Decodes the records of a snapshot in the current format. A record whose checksum does not match
+ * is skipped, a truncated record ends the snapshot.
+ *
+ * @param {Buffer} data - The snapshot, without the file header.
+ * @returns {{ items: DataArray[]; skipped: number }} The cache entries and the number of skipped records.
+ */
+const decodeRecords = (data: Buffer): { items: DataArray[]; skipped: number } => {
+	const items: DataArray[] = [];
+	let skipped = 0;
+	let offset = 0;
+	while (offset < data.length) {
+		if (offset + RECORD_HEADER_SIZE > data.length) {
+			skipped += 1;
+			break;
+		}
+		const length = data.readUInt32LE(offset);
+		const expectedChecksum = data.readUInt32LE(offset + 4);
+		offset += RECORD_HEADER_SIZE;
+		if (offset + length > data.length) {
+			skipped += 1;
+			break;
+		}
+		const payload = data.subarray(offset, offset + length);
+		offset += length;
+		try {
+			if (checksum(payload) !== expectedChecksum) {
+				throw new Error("Checksum mismatch");
+			}
+			items.push(decodeRecord(payload));
+		} catch {
+			skipped += 1;
+		}
+	}
+	return { items, skipped };
+};
+
 /**
- * Serializes an array of data items to a file. Each item in the data array is converted into a binary format
- * and then written to the specified file. The serialization format includes lengths and contents of request IDs,
- * headers, status codes, and body content.
+ * Decodes a version 1 snapshot. Records are read until the end of the file or the first truncated
+ * record; the records read before it are kept.
+ *
+ * @param {Buffer} data - The snapshot.
+ * @returns {{ items: DataArray[]; skipped: number }} The cache entries and the number of skipped records.
+ */
+const decodeLegacyRecords = (
+	data: Buffer,
+): { items: DataArray[]; skipped: number } => {
+	const items: DataArray[] = [];
+	let offset = 0;
+	try {
+		while (offset < data.length) {
+			const requestIdLength = data.readUInt32LE(offset);
+			const requestId = data
+				.subarray(offset + 4, offset + 4 + requestIdLength)
+				.toString("utf-8");
+			let cursor = offset + 4 + requestIdLength;
+
+			const headersLength = data.readUInt32LE(cursor);
+			const headersString = data
+				.subarray(cursor + 4, cursor + 4 + headersLength)
+				.toString("utf-8");
+			cursor += 4 + headersLength;
+
+			const status = data.readInt32LE(cursor);
+			const bodyLength = data.readUInt32LE(cursor + 4);
+			cursor += 8;
+			if (cursor + bodyLength > data.length) {
+				throw new RangeError("Record is truncated");
+			}
+			const body = new Uint8Array(data.subarray(cursor, cursor + bodyLength));
+			offset = cursor + bodyLength;
+
+			const headers: HeadersEntryType[] = headersString
+				.split("\n")
+				.filter(Boolean)
+				.map((header) => {
+					const [key, ...rest] = header.split(":");
+					// Rejoin the rest of the parts and trim any whitespace
+					return [key, rest.join(":").trim()] as HeadersEntryType;
+				});
+
+			items.push([
+				requestId,
+				{
+					value: { body, status, headers },
+					size: sizeOfCacheableObject({ body, status, headers }, requestId),
+				},
+			]);
+		}
+		return { items, skipped: 0 };
+	} catch {
+		return { items, skipped: 1 };
+	}
+};
+
+/**
+ * Serializes an array of data items to a file. The file starts with `SNAPSHOT_MAGIC` and
+ * `SNAPSHOT_VERSION`, followed by one checksummed record per item, see `encodeRecord`.
+ *
+ * The file is written atomically: data goes to a temporary file renamed over the target once complete, so
+ * readers never see a partial file. Writers are serialized with a lock file, see `acquireFileLock`.
  *
  * @param {DataArray[]} data - An array of data items to be serialized.
  * @param {string} filename - The name of the file where the serialized data will be saved.
  * @returns {Promise<void>} A promise that resolves when the serialization and file writing is complete.
+ * @throws {FileLockError} Throws an error if another process is writing the file.
  */
 export async function serializeToFile(
 	data: DataArray[],
@@ -17,65 +291,31 @@ export async function serializeToFile(
 	if (!filename) {
 		throw new Error("filename is required");
 	}
-	try {
-		const serializedItems: Buffer[] = [];
+	const fileHeader = Buffer.alloc(FILE_HEADER_SIZE);
+	SNAPSHOT_MAGIC.copy(fileHeader);
+	fileHeader.writeUInt16LE(SNAPSHOT_VERSION, SNAPSHOT_MAGIC.length);
 
-		for (const item of data) {
-			const requestIdUint8Array = new Uint8Array(Buffer.from(item[0], "utf-8"));
-			const requestIdLengthBuffer = Buffer.alloc(4);
-			requestIdLengthBuffer.writeUInt32LE(requestIdUint8Array.length);
-
-			const headersString = Array.from(item[1].value.headers)
-				.map((header) => {
-					if (
-						typeof header === "object" &&
-						header !== null &&
-						Array.isArray(header)
-					) {
-						return header.join(":");
-					}
-					return "";
-				})
-				.filter(Boolean)
-				.join("\n");
-			const headersUint8Array = new Uint8Array(
-				Buffer.from(headersString, "utf-8"),
-			);
-			const headersLengthBuffer = Buffer.alloc(4);
-			headersLengthBuffer.writeUInt32LE(headersUint8Array.length);
-
-			const statusBuffer = Buffer.alloc(4);
-			statusBuffer.writeInt32LE(item[1].value.status);
-
-			const bodyLengthBuffer = Buffer.alloc(4);
-			bodyLengthBuffer.writeUInt32LE(item[1].value.body.length);
-
-			const serializedItem = Buffer.concat([
-				requestIdLengthBuffer,
-				requestIdUint8Array,
-				headersLengthBuffer,
-				headersUint8Array,
-				statusBuffer,
-				bodyLengthBuffer,
-				item[1].value.body,
-			]);
-			serializedItems.push(serializedItem);
-		}
-
-		const combinedData = Buffer.concat(serializedItems);
-		Bun.write(filename, combinedData);
+	const combinedData = Buffer.concat([fileHeader, ...data.map(encodeRecord)]);
+	const release = await acquireFileLock(filename);
+	const tmpFilename = `${filename}.${process.pid}.tmp`;
+	try {
+		await Bun.write(tmpFilename, combinedData);
+		await rename(tmpFilename, filename);
 	} catch (ex) {
-		console.log(ex);
+		await unlink(tmpFilename).catch(() => undefined);
+		throw ex;
+	} finally {
+		await release();
 	}
 }
 
 /**
- * Deserializes data from a file into an array of data items. The function reads a file and converts
- * its binary content back into the original data format. This includes reconstructing request IDs, headers,
- * status codes, and body content.
+ * Deserializes data from a file into an array of data items. Corrupt records are skipped and
+ * reported instead of discarding the whole file, and version 1 files are migrated on the fly.
  *
  * @param {string} filename - The name of the file from which to deserialize data.
  * @returns {DataArray[]} An array of deserialized data items.
+ * @throws {Error} Throws an error if the file does not exist or has an unsupported version.
  */
 export async function deserializeFromFile(
 	filename: string,
@@ -84,58 +324,29 @@ export async function deserializeFromFile(
 	if ((await file.exists()) === false) {
 		throw new Error("File not found");
 	}
-	try {
-		const data = Buffer.from(await file.arrayBuffer());
-		const deserializedData: DataArray[] = [];
+	const data = Buffer.from(await file.arrayBuffer());
 
-		let offset = 0;
-		while (offset < data.length) {
-			const requestIdLength = data.readUInt32LE(offset);
-			offset += 4;
-			const requestId = data
-				.subarray(offset, offset + requestIdLength)
-				.toString("utf-8");
-			offset += requestIdLength;
-
-			const headersLength = data.readUInt32LE(offset);
-			offset += 4;
-			const headersUint8Array = new Uint8Array(
-				data.subarray(offset, offset + headersLength),
+	let result: { items: DataArray[]; skipped: number };
+	if (
+		data.length >= FILE_HEADER_SIZE &&
+		data.subarray(0, SNAPSHOT_MAGIC.length).equals(SNAPSHOT_MAGIC)
+	) {
+		const version = data.readUInt16LE(SNAPSHOT_MAGIC.length);
+		if (version !== SNAPSHOT_VERSION) {
+			throw new Error(
+				`Snapshot version ${version} is not supported, expected ${SNAPSHOT_VERSION}`,
 			);
-			const headersString = Buffer.from(headersUint8Array).toString("utf-8");
-			const headersArray: HeadersEntryType[] = headersString
-				.split("\n")
-				.map((header) => {
-					const [key, ...rest] = header.split(":");
-					const value = rest.join(":").trim(); // Rejoin the rest of the parts and trim any whitespace
-					return [key, value] as HeadersEntryType;
-				});
-			offset += headersLength;
-
-			const status = data.readInt32LE(offset);
-			offset += 4;
-
-			const bodyLength = data.readUInt32LE(offset); // Read the length of the body
-			offset += 4;
-
-			const body = new Uint8Array(data.subarray(offset, offset + bodyLength));
-			offset += bodyLength;
-
-			deserializedData.push([
-				requestId,
-				{
-					value: {
-						body: body,
-						status: status,
-						headers: headersArray,
-					},
-					size: bodyLength + headersLength + 8 + requestIdLength + 4, // additional bytes for requestIdLength
-				},
-			]);
 		}
-		return deserializedData;
-	} catch (ex) {
-		console.log(ex);
+		result = decodeRecords(data.subarray(FILE_HEADER_SIZE));
+	} else {
+		console.log(`Migrating cache snapshot ${filename} from version 1`);
+		result = decodeLegacyRecords(data);
+	}
+
+	if (result.skipped) {
+		console.warn(
+			`Skipped ${result.skipped} corrupt record(s) of cache snapshot ${filename}`,
+		);
 	}
-	return [];
+	return result.items;
 }
@@ -0,0 +1,117 @@
+import { hash } from "./hash.util";
+
+/**
+ * Suffix of the cache entries recording the `Vary` header of the responses stored under a key.
+ */
+export const VARY_MARKER_SUFFIX = ":vary";
+
+/**
+ * Request headers left out of the variants: the cache negotiates the content encoding itself.
+ */
+const IGNORED_VARY_HEADERS = ["accept-encoding"];
+
+/**
+ * Reads the request headers a response varies on from its `Vary` header.
+ *
+ * @param {HeadersEntryType[]} headers - The headers of the response.
+ * @returns {string[]} The lower-cased header names, sorted, `*` when the response varies on anything.
+ */
+export const getVaryHeaders = (headers: HeadersEntryType[]): string[] => {
+	const vary = new Headers(headers).get("vary");
+	if (!vary) return [];
+	const names = vary
+		.split(",")
+		.map((name) => name.trim().toLowerCase())
+		.filter((name) => name && !IGNORED_VARY_HEADERS.includes(name));
+	return Array.from(new Set(names)).sort();
+};
+
+/**
+ * Reads the request headers a cached response of a route varies on. Routes ignoring the upstream
+ * cache headers ignore `Vary` too.
+ *
+ * @param {ResponseCacheableObject} cacheableObj - The response.
+ * @param {CompiledRoute} route - The route of the response.
+ * @returns {string[]} The lower-cased header names.
+ */
+export const getResponseVary = (
+	cacheableObj: ResponseCacheableObject,
+	route: CompiledRoute,
+): string[] =>
+	route.upstreamCacheControl === "ignore" ? [] : getVaryHeaders(cacheableObj.headers);
+
+/**
+ * Builds the key of the variant of an entry matching the headers of a request.
+ *
+ * @param {string} requestId - The key of the entry.
+ * @param {Request} request - The request.
+ * @param {string[]} varyHeaders - The headers the response varies on.
+ * @returns {string} The key of the variant, the key of the entry when it does not vary.
+ */
+export const getVariantId = (
+	requestId: string,
+	request: Request,
+	varyHeaders: string[],
+): string => {
+	if (!varyHeaders.length) return requestId;
+	const values = varyHeaders.map(
+		(name) => `${name}=${encodeURIComponent(request.headers.get(name) || "")}`,
+	);
+	return `${requestId}:v:${hash(values.join("\n"))}`;
+};
+
+/**
+ * Resolves the cache key of a request: when the responses stored under its key vary on request
+ * headers, the key of the variant matching the request.
+ *
+ * @param {CacheStore} store - The cache store.
+ * @param {string} requestId - The key of the request.
+ * @param {Request} request - The request.
+ * @returns {Promise<string>} The cache key.
+ */
+export const resolveCacheKey = async (
+	store: CacheStore,
+	requestId: string,
+	request: Request,
+): Promise<string> => {
+	const marker = await store.get(`${requestId}${VARY_MARKER_SUFFIX}`);
+	return marker ? getVariantId(requestId, request, getVaryHeaders(marker.headers)) : requestId;
+};
+
+/**
+ * Creates the entry recording the headers the responses stored under a key vary on. It has no
+ * content, so it is never served.
+ *
+ * @param {string[]} varyHeaders - The headers the responses vary on.
+ * @returns {ResponseCacheableObject} The marker entry.
+ */
+export const createVaryMarker = (varyHeaders: string[]): ResponseCacheableObject => ({
+	body: new Uint8Array(0),
+	status: 200,
+	headers: [["vary", varyHeaders.join(", ")]],
+});
+
+/**
+ * Adds the request headers a route keys its responses on to the `Vary` header of a response, so
+ * that downstream caches key them the same way. Keyed cookies add `Cookie`.
+ *
+ * @param {Headers} headers - The headers of the response.
+ * @param {RouteVary} [vary] - The request components declared by the route.
+ */
+export const appendRouteVary = (headers: Headers, vary?: RouteVary) => {
+	const routeHeaders = [
+		...(vary?.headers ?? []),
+		...(vary?.cookies?.length ? ["cookie"] : []),
+	].map((name) => name.toLowerCase());
+	if (!routeHeaders.length) return;
+	const current = (headers.get("vary") || "")
+		.split(",")
+		.map((name) => name.trim())
+		.filter(Boolean);
+	if (current.includes("*")) return;
+	const currentLower = current.map((name) => name.toLowerCase());
+	const added = routeHeaders.filter(
+		(name, index) => !currentLower.includes(name) && routeHeaders.indexOf(name) === index,
+	);
+	if (added.length) headers.set("Vary", [...current, ...added].join(", "));
+};
@@ -0,0 +1,157 @@
+import os from "os";
+import type { LRUCacheStore } from "./cache-store.util";
+import { COUNTERS, Counters, defaultCounters } from "./metrics.util";
+import { CGROUP_ROOT, formatBytes, getCgroupMemory } from "./memory.util";
+
+type MemoryWatchdogOptions = {
+	// Share of the memory limit above which the cache is shrunk, defaults to 0.9
+	highWaterMark?: number;
+	// Share of the memory limit the cache is shrunk down to, defaults to 0.8
+	lowWaterMark?: number;
+	// Milliseconds between two memory samples, defaults to 1000
+	interval?: number;
+	// Memory the process may use when not limited by a cgroup, defaults to the host memory
+	limit?: number;
+	// Mount point of the cgroup filesystem
+	cgroupRoot?: string;
+	// Samples the memory, reads the process and cgroup usage by default
+	sample?: () => Promise<MemorySample>;
+	// Counters the pressure evictions are added to, those of the server reporting them
+	counters?: Counters;
+};
+
+/**
+ * Samples the memory used by the process and the working set of its cgroup, which leaves out the
+ * page cache the kernel can reclaim, against the memory limit.
+ *
+ * @param {string} cgroupRoot - The mount point of the cgroup filesystem.
+ * @param {number} [limit] - Memory the process may use when not limited by a cgroup.
+ * @returns {Promise<MemorySample>} The used memory and the limit, in bytes.
+ */
+export const sampleMemory = async (
+	cgroupRoot: string,
+	limit?: number,
+): Promise<MemorySample> => {
+	const rss = process.memoryUsage().rss;
+	const cgroup = await getCgroupMemory(cgroupRoot);
+	if (cgroup) {
+		return { used: Math.max(rss, cgroup.usage), limit: cgroup.limit };
+	}
+	return { used: rss, limit: limit ?? os.totalmem() };
+};
+
+/**
+ * Watches the memory of the process while the in-memory cache grows: above the high-water mark,
+ * the least recently used entries are evicted until the memory gets back to the low-water mark,
+ * and the cache refuses new entries until the memory falls below the low-water mark again.
+ */
+export class MemoryWatchdog {
+	private highWaterMark: number;
+	private lowWaterMark: number;
+	private interval: number;
+	private sample: () => Promise<MemorySample>;
+	private counters: Counters;
+	private timer: Timer | null = null;
+	private budget: number | null = null;
+	private pressureEvictions = 0;
+	private memory?: MemorySample;
+
+	/**
+	 * @param {LRUCacheStore} store - The in-memory cache store.
+	 * @param {MemoryWatchdogOptions} [options] - The water marks, the sampling interval and the counters.
+	 */
+	constructor(
+		readonly store: LRUCacheStore,
+		options: MemoryWatchdogOptions = {},
+	) {
+		this.highWaterMark = options.highWaterMark ?? 0.9;
+		this.lowWaterMark = Math.min(options.lowWaterMark ?? 0.8, this.highWaterMark);
+		this.interval = options.interval ?? 1000;
+		const cgroupRoot = options.cgroupRoot ?? CGROUP_ROOT;
+		this.sample = options.sample ?? (() => sampleMemory(cgroupRoot, options.limit));
+		this.counters = options.counters ?? defaultCounters;
+	}
+
+	/**
+	 * Samples the memory once, shrinking the cache above the high-water mark and lifting the
+	 * pressure below the low-water mark.
+	 *
+	 * @returns {Promise<number>} The number of entries evicted.
+	 */
+	async check(): Promise<number> {
+		const memory = await this.sample();
+		this.memory = memory;
+		const highBytes = memory.limit * this.highWaterMark;
+		const lowBytes = memory.limit * this.lowWaterMark;
+
+		if (memory.used < lowBytes) {
+			if (this.budget !== null) {
+				this.budget = null;
+				this.store.refuseWrites = false;
+				console.log("Memory pressure relieved, the cache accepts new entries");
+			}
+			return 0;
+		}
+		if (memory.used < highBytes) return 0;
+
+		// The cache is expected to give back what it frees, the rest of the memory is not its own
+		const { size } = await this.store.stats();
+		const targetSize = Math.max(size - (memory.used - lowBytes), 0);
+		const evicted = this.store.evictTo(targetSize);
+		const enteringPressure = this.budget === null;
+		this.budget = Math.min(this.budget ?? Infinity, targetSize);
+		this.store.refuseWrites = true;
+		if (evicted) {
+			this.pressureEvictions += evicted;
+			this.counters.increment(COUNTERS.PRESSURE_EVICTIONS, evicted);
+			Bun.gc(false);
+		}
+		if (evicted || enteringPressure) {
+			console.warn(
+				`Memory pressure: ${formatBytes(memory.used)} of ${formatBytes(memory.limit)} used, ${evicted} cache entries evicted, cache budget ${formatBytes(this.budget)}`,
+			);
+		}
+		return evicted;
+	}
+
+	/**
+	 * Reports the current budget of the cache and the evictions caused by memory pressure.
+	 *
+	 * @returns {Promise<MemoryWatchdogStatus>} The status of the watchdog.
+	 */
+	async status(): Promise<MemoryWatchdogStatus> {
+		const { maxSize } = await this.store.stats();
+		return {
+			budget: this.budget ?? maxSize ?? null,
+			underPressure: this.budget !== null,
+			pressureEvictions: this.pressureEvictions,
+			memory: this.memory,
+		};
+	}
+
+	/**
+	 * Samples the memory periodically until `stop` is called.
+	 */
+	start() {
+		this.stop();
+		this.timer = setInterval(async () => {
+			try {
+				await this.check();
+			} catch (ex) {
+				console.error("Error while sampling the memory:", ex);
+			}
+		}, this.interval);
+		// The watchdog should not keep the process alive
+		this.timer.unref();
+	}
+
+	/**
+	 * Stops the periodic sampling started with `start`.
+	 */
+	stop() {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+}
@@ -4,28 +4,72 @@ import {
 import { compileRoute } from "./core/utils/router.util";
 import { routes as rawRoutes } from "./__routes";
 import { run } from "./core/server";
-import { getCacheInstance, initCacheInstance } from "./core/utils/cache.util";
-import { getFreeMemoryInBytes } from "./core/utils/memory.util";
-import { serialize } from "bun:jsc";
+import {
+	getCacheInstance,
+	getCacheManager,
+	initCacheInstance,
+} from "./core/utils/cache.util";
+import {
+	describeCacheBudget,
+	getAvailableMemory,
+	resolveCacheBudget,
+} from "./core/utils/memory.util";
+import {
+	findConfigFile,
+	getCacheStoreKind,
+	getConfigRoutes,
+	loadConfig,
+} from "./core/utils/config.util";
+import { corsConfig } from "./core/utils/cors.util";
+import { reloadRoutes } from "./core/utils/reload.util";
+import { registerGracefulShutdown } from "./core/utils/shutdown.util";
+import { TieredCacheStore } from "./core/utils/cache-store.util";
+import { SqliteCacheStore } from "./core/utils/sqlite-store.util";
+import { MemoryWatchdog } from "./core/utils/watchdog.util";
+import { Counters } from "./core/utils/metrics.util";
+import { BackgroundTasks } from "./core/utils/background.util";
+import { sizeOfCacheableObject } from "./core/utils/size.util";
+import { watch } from "fs";
+import path from "path";
+import os from "os";
+
+/**
+ * Loads the optional bunblaze.config.ts / bunblaze.config.json. An invalid
+ * configuration stops the startup with an error pointing to the offending key.
+ */
+const configFile = await findConfigFile();
+const config = await loadConfig(configFile);
+Object.assign(corsConfig, config?.cors);
 
 /**
- * Performs garbage collection and calculates the usable bytes for the cache based on the system's available memory.
+ * Performs garbage collection and computes the memory budget of the cache from the memory
+ * available to the process, bounded by the cgroup limit inside a container. CACHE_SIZE (bytes)
+ * and CACHE_SIZE_PERCENT (share of the available memory, 70% by default) take precedence over
+ * the configuration file, and the budget is clamped between CACHE_SIZE_MIN and CACHE_SIZE_MAX.
  */
 Bun.gc(true);
-const availableBytes = await getFreeMemoryInBytes();
-// 70% of memory
-const usableBytes = Math.floor(availableBytes * 0.7);
+const availableMemory = await getAvailableMemory();
+const sizePercent = +(process.env.CACHE_SIZE_PERCENT || 0);
+const cacheBudget = resolveCacheBudget(availableMemory, {
+	size: +(process.env.CACHE_SIZE || config?.cache?.size || 0) || undefined,
+	percentage: sizePercent > 0 ? sizePercent / 100 : config?.cache?.memoryPercentage,
+	minSize: +(process.env.CACHE_SIZE_MIN || config?.cache?.minSize || 0) || undefined,
+	maxSize: +(process.env.CACHE_SIZE_MAX || config?.cache?.maxSize || 0) || undefined,
+});
+const usableBytes = cacheBudget.bytes;
+console.log(`Cache budget: ${describeCacheBudget(cacheBudget, availableMemory)}`);
 
 /**
- * Calculates the size of an object in bytes. This is used in the cache's size calculation logic.
- * 
- * @param {ResponseCacheableObject} obj - The object whose size needs to be calculated.
- * @returns {number} The size of the object in bytes.
+ * Selects the cache store, CACHE_STORE taking precedence over the configuration file: the
+ * in-memory cache by default, "sqlite" to persist the cache on disk instead, or "tiered" to
+ * keep the in-memory cache in front of the sqlite store. An unknown store stops the startup.
  */
-function sizeOf(obj: ResponseCacheableObject): number {
-	const serializedObj = serialize(obj);
-	return serializedObj.byteLength + 50;
-}
+const storeKind = getCacheStoreKind(config);
+const usesSqlite = storeKind === "sqlite" || storeKind === "tiered";
+
+// Snapshot file of this instance, the environment variable takes precedence over the configuration file
+const snapshotPath =
+	process.env.CACHE_SNAPSHOT_PATH || config?.cache?.snapshotPath;
 
 /**
  * Configuration options for the LRUCache. It includes settings for 
@@ -33,32 +77,163 @@ function sizeOf(obj: ResponseCacheableObject): number {
  */
 const options = {
 	maxSize: usableBytes,
-	sizeCalculation: sizeOf,
+	sizeCalculation: sizeOfCacheableObject,
 
 	// return stale items before removing from cache?
 	allowStale: true,
+
+	snapshotPath: snapshotPath ? path.resolve(snapshotPath) : undefined,
+	// Snapshots are neither written nor loaded with the sqlite store, which persists the cache itself
+	loadSnapshot: !usesSqlite,
 };
 
 await initCacheInstance(options);
-const cache = getCacheInstance();
+const memoryStore = getCacheInstance();
+const cacheManager = getCacheManager();
+
+// Database of the sqlite and tiered stores
+const sqliteStore = usesSqlite
+	? new SqliteCacheStore({
+			path: path.resolve(
+				process.env.CACHE_SQLITE_PATH ||
+					config?.cache?.sqlitePath ||
+					path.join(os.tmpdir(), "cache.sqlite"),
+			),
+			maxSize:
+				+(process.env.CACHE_SQLITE_MAX_SIZE || config?.cache?.sqliteMaxSize || 0) ||
+				undefined,
+	  })
+	: undefined;
+const tieredStore =
+	sqliteStore && storeKind === "tiered"
+		? new TieredCacheStore(memoryStore, sqliteStore)
+		: undefined;
+const store: CacheStore = tieredStore ?? sqliteStore ?? memoryStore;
+
+/**
+ * Snapshots the in-memory cache every CACHE_SNAPSHOT_INTERVAL minutes, so that a crash
+ * loses at most one interval of cache. Disabled when unset or 0, and unnecessary with
+ * the sqlite store.
+ */
+const snapshotInterval =
+	+(process.env.CACHE_SNAPSHOT_INTERVAL || config?.cache?.snapshotInterval || 0) ||
+	0;
+if (snapshotInterval > 0 && !sqliteStore) {
+	cacheManager.startSnapshots(snapshotInterval * 60 * 1000);
+}
+
 /**
- * Compiles raw routes into a format suitable for matching against incoming requests.
+ * Shrinks the in-memory cache when the memory of the process, or of its container, gets above
+ * CACHE_HIGH_WATER_MARK of the limit (0.9 by default), down to CACHE_LOW_WATER_MARK (0.8), and
+ * refuses new entries until the pressure is relieved. Sampled every CACHE_WATCHDOG_INTERVAL
+ * milliseconds (1000 by default, 0 disables it), unused with the sqlite store alone. Its
+ * evictions are counted with the counters of the server.
  */
-const routes = compileRoute(rawRoutes);
+const counters = new Counters();
+const watchdogInterval = +(
+	process.env.CACHE_WATCHDOG_INTERVAL ??
+	config?.cache?.watchdogInterval ??
+	1000
+);
+const watchdog =
+	watchdogInterval > 0 && storeKind !== "sqlite"
+		? new MemoryWatchdog(memoryStore, {
+				highWaterMark:
+					+(process.env.CACHE_HIGH_WATER_MARK || 0) || config?.cache?.highWaterMark,
+				lowWaterMark:
+					+(process.env.CACHE_LOW_WATER_MARK || 0) || config?.cache?.lowWaterMark,
+				interval: watchdogInterval,
+				counters,
+		  })
+		: undefined;
+watchdog?.start();
 
-// Server configuration and initialization
-const port = +(process.env.PORT || "3000") || 3000;
-const hostname = process.env.HOST || process.env.HOSTNAME || "localhost";
+/**
+ * Compiles raw routes, followed by the proxy routes of the configuration file,
+ * into a format suitable for matching against incoming requests. The routes are
+ * held by a reference so that they can be swapped without restarting the server.
+ */
+const routes: RoutesRef = {
+	current: compileRoute([...rawRoutes, ...getConfigRoutes(config)]),
+};
+
+/**
+ * Reloads the routes of the configuration file, keeping the cache. Entries of
+ * removed or changed routes are purged unless PURGE_ON_RELOAD=false. An invalid
+ * configuration is reported and the current routes are kept.
+ */
+const reloadConfigRoutes = async () => {
+	try {
+		const nextConfig = await loadConfig(configFile);
+		const summary = await reloadRoutes(
+			routes,
+			compileRoute([...rawRoutes, ...getConfigRoutes(nextConfig)]),
+			{ purge: process.env.PURGE_ON_RELOAD !== "false", store },
+		);
+		console.log("Routes reloaded:", summary);
+	} catch (ex) {
+		console.error("Routes not reloaded:", ex instanceof Error ? ex.message : ex);
+	}
+};
+
+// Reload on SIGHUP, and whenever the configuration file changes
+process.on("SIGHUP", reloadConfigRoutes);
+if (configFile) {
+	let reloadTimer: Timer | undefined;
+	// Watch the directory, editors often replace the file instead of writing to it
+	watch(path.dirname(configFile), (_event, filename) => {
+		if (filename !== path.basename(configFile)) return;
+		clearTimeout(reloadTimer);
+		reloadTimer = setTimeout(reloadConfigRoutes, 100);
+	});
+}
+
+// Server configuration and initialization, environment variables take precedence over the configuration file
+const port = +(process.env.PORT || config?.server?.port || "3000") || 3000;
+const hostname =
+	process.env.HOST ||
+	process.env.HOSTNAME ||
+	config?.server?.hostname ||
+	"localhost";
+// The status endpoint is only served when its path is configured
+const statusPath = process.env.STATUS_PATH || config?.server?.statusPath;
 
 /**
  * Starts a Bun server with defined hostname and port. The server handles incoming HTTP requests
  * and routes them based on the defined route handlers, while also handling CORS and caching.
+ * Its background revalidations are waited for on shutdown.
  */
+const backgroundTasks = new BackgroundTasks();
 const server = await run(routes, {
-	cache,
+	store,
 	hostname,
 	port,
 	getRequestId,
+	counters,
+	backgroundTasks,
+	statusPath,
+	// The effective budget of the cache and the evictions caused by memory pressure
+	status: async () => ({ memory: watchdog ? await watchdog.status() : null }),
+});
+
+/**
+ * On SIGTERM / SIGINT, stops accepting requests, waits for in-flight requests
+ * and background revalidations, then writes the cache snapshot loaded on the
+ * next start, or closes the sqlite store.
+ */
+registerGracefulShutdown(server, {
+	timeout: +(process.env.SHUTDOWN_TIMEOUT || "10000") || 10000,
+	backgroundTasks,
+	onShutdown: async () => {
+		cacheManager.stopSnapshots();
+		watchdog?.stop();
+		if (sqliteStore) {
+			await tieredStore?.flushTouches();
+			sqliteStore.close();
+		} else {
+			await cacheManager.dumpCache();
+		}
+	},
 });
 
 console.log(`Listening on ${server.hostname}:${server.port}`);